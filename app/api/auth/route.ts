@@ -0,0 +1,53 @@
+// app/api/auth/route.ts
+import { NextResponse } from "next/server";
+import { clientIp, getAuthStrategy } from "../../../lib/auth";
+import { consume } from "../../../lib/auth/limits";
+import { userForToken } from "../../../lib/auth/tokens";
+import { sessionCookieHeader, sessionMaxAgeMs, type CookieAuthStrategy } from "../../../lib/auth/cookie";
+import { toolError } from "../../../lib/services/errors";
+
+export const runtime = "nodejs";
+
+const isSecure = (req: Request) =>
+    new URL(req.url).protocol === "https:" || req.headers.get("x-forwarded-proto") === "https";
+
+// Which strategy is in use and who is signed in (null when nobody is).
+export async function GET(req: Request) {
+    const auth = getAuthStrategy();
+    const user = await auth.authenticate(req);
+    return NextResponse.json({ strategy: auth.name, user: user && user.via !== "anonymous" ? user.id : null });
+}
+
+// Signs in with an access token (AUTH_STRATEGY=cookie only) and sets the session cookie.
+// Body: { token: string }
+export async function POST(req: Request) {
+    const auth = getAuthStrategy();
+    if (auth.name !== "cookie") {
+        return NextResponse.json(toolError("invalid_input", `Signing in is not used with AUTH_STRATEGY=${auth.name}`), { status: 400 });
+    }
+    // sign-in attempts count against the per-IP limit like any other request
+    const rate = consume("ip", clientIp(req));
+    if (!rate.ok) {
+        return NextResponse.json(toolError("rate_limited", "Too many sign-in attempts"), {
+            status: 429,
+            headers: { "Retry-After": String(Math.ceil(rate.retryAfterMs / 1000)) },
+        });
+    }
+    const body = await req.json().catch(() => null);
+    const token = typeof body?.token === "string" ? body.token.trim() : "";
+    const { signer, table } = auth as CookieAuthStrategy;
+    const user = token ? userForToken(table, token) : undefined;
+    if (!user) {
+        return NextResponse.json(toolError("unauthorized", "Unknown access token", { hint: "Check the token and try again." }), { status: 401 });
+    }
+    const maxAge = sessionMaxAgeMs();
+    return new NextResponse(null, {
+        status: 204,
+        headers: { "Set-Cookie": sessionCookieHeader(signer.sign(user, maxAge), maxAge, isSecure(req)) },
+    });
+}
+
+// Signs out by clearing the session cookie.
+export async function DELETE(req: Request) {
+    return new NextResponse(null, { status: 204, headers: { "Set-Cookie": sessionCookieHeader("", 0, isSecure(req)) } });
+}
@@ -0,0 +1,13 @@
+// app/api/cache/route.ts
+import { NextResponse } from "next/server";
+import { getCacheStats } from "../../../lib/cache";
+import { authorize } from "../../../lib/auth";
+
+export const runtime = "nodejs";
+
+// Reports cache hit/miss counters of this server instance, per upstream provider.
+export async function GET(req: Request) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
+    return NextResponse.json(getCacheStats());
+}
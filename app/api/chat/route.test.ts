@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import type { Feature, FeatureCollection } from "geojson";
+import { circle, positions } from "../../../lib/geo";
+import { simplifyForMap } from "../../../lib/tools/compact";
+import type { MapViewport } from "../../../lib/layers";
+import { POST } from "./route";
+
+// a boundary with far more detail than any map shows
+const forest: FeatureCollection = {
+    type: "FeatureCollection",
+    features: [{ type: "Feature", properties: { name: "Seoul Forest", category: "leisure" }, geometry: circle([127.04, 37.54], 1000, 20_000) }],
+};
+vi.mock("../../../lib/services/geocoder", () => ({
+    geocodeSearch: vi.fn(async () => ({ ok: true, data: forest, source: "nominatim" })),
+    geocodeReverse: vi.fn(),
+}));
+
+const viewport: MapViewport = { bbox: [126.9, 37.45, 127.2, 37.65], center: { lat: 37.55, lng: 127.05 }, zoom: 12 };
+
+let dir = "";
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "mapchat-sessions-"));
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    vi.stubEnv("SESSION_DIR", dir);
+});
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+});
+
+// the tool outputs in a UI message stream (server-sent events)
+function streamedOutputs(body: string): any[] {
+    return body.split("\n")
+        .filter((line) => line.startsWith("data: {"))
+        .map((line) => JSON.parse(line.slice(6)))
+        .filter((chunk) => chunk.type === "tool-output-available")
+        .map((chunk) => chunk.output);
+}
+
+describe("POST /api/chat", () => {
+    it("streams and saves tool results with their geometry simplified for the user's map", async () => {
+        const res = await POST(new NextRequest("http://localhost/api/chat", {
+            method: "POST",
+            body: JSON.stringify({
+                id: "simplified",
+                messages: [{ id: "u1", role: "user", parts: [{ type: "text", text: "Find Seoul Forest" }] }],
+                viewport,
+            }),
+        }));
+        const expected = simplifyForMap(forest, viewport);
+        const full = positions(forest.features[0].geometry).length;
+
+        const [output] = streamedOutputs(await res.text());
+        expect(output.data).toEqual(expected);
+        expect(positions(output.data.features[0].geometry).length).toBeLessThan(full / 10);
+
+        const file = path.join(dir, "simplified.json");
+        await vi.waitFor(() => readFile(file, "utf8"));
+        const session = JSON.parse(await readFile(file, "utf8"));
+        const saved = session.messages.flatMap((m: any) => m.parts).find((p: any) => p.type === "tool-nominatimSearch");
+        expect(saved.output.data.features.map((f: Feature) => f.geometry)).toEqual(expected.features.map((f) => f.geometry));
+    });
+});
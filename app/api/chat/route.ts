@@ -1,34 +1,102 @@
 import { NextRequest } from "next/server";
-import { openai } from "@ai-sdk/openai";
 import {convertToModelMessages, stepCountIs, streamText} from "ai";
-import { nominatimSearchTool } from "../../../lib/tools/nominatim";
-import { foursquareByPlaceTool } from "../../../lib/tools/foursquare-by-place";
+import { createMapTools } from "../../../lib/tools";
+import { chatContextPrompt, parseChatContext } from "../../../lib/tools/context";
+import { getSessionStore, isValidSessionId } from "../../../lib/sessions";
+import { getChatModel, getToolSupport } from "../../../lib/llm";
+import { authorize, recordToolCalls } from "../../../lib/auth";
 
 export const runtime = "nodejs";
 
 // System prompt nudges the model toward using the correct search tool for the respective query
 const SYSTEM = `You are MapChat.
 - If the user wants only to find a location, use only "nominatimSearch".
+- If the user asks what is at a coordinate (e.g. "What is here? (lat, lng)" or "what neighbourhood is this?"), use "nominatimReverse". Use a lower zoom for larger areas (10 for city, 14 for neighbourhood).
+- For "near here" / "around here" / "in this area", the user means their map view: leave out the place in "foursquareByPlace" and set around to "map". For "near me", set around to "me". Never make up coordinates.
 - If prompted by the user for recommendations of hotels/restaurants/attractions near a named place, use only "foursquareByPlace". This tool only has filter options by minimum rating and distance to the search center. After using this tool, you can remind the user that they can click on the markers for more details.
+- For "show more" or "more options" after recommendations, use "showMore" with the layer name instead of searching again. It adds only new places to the same layer; results with morePages false have nothing more to show.
+- To compare the same kind of places around several locations (e.g. "ramen near Shibuya vs Shinjuku"), use "comparePlaces" once with all places instead of several "foursquareByPlace" calls. A side-by-side table is shown to the user, so point out the differences instead of repeating every number.
+- When a message names a place with its fsq_id (e.g. from the "Ask about this" button on a marker), use "placeDetails" with that fsq_id instead of searching by name, and answer from its details, tips and photos. For "Find similar", use "foursquareByPlace" with the given coordinates as the place and the place's category as the query, and leave the original place out of your recommendations.
+- If the user asks how to get from one place to another, use "directions" with the "driving", "walking" or "cycling" profile. The steps are listed in the chat for them, so only summarize the distance and duration.
+- Tool results you see list each feature's name, center (lat, lng), bbox and area or length, not its full geometry; the full shapes are drawn on the user's map. Use the spatial tools for exact measurements.
+- If a tool returns a "disambiguation" (a place name that matches several places), ask in one sentence which one the user means. They see numbered pins and choices, and picking one continues the request. If they answer in words instead (e.g. "the one in Illinois"), call the same tool with the input of that option.
+- Earlier results stay on the user's map as named layers. When the user refers to "the previous results" or a layer by name, use the matching earlier tool output in this conversation instead of searching again.
+- Layers marked "uploaded by the user" are the user's own files, listed with the coordinates of their features. Answer questions about them (e.g. which is nearest to a place) from those coordinates, locating the other place with "nominatimSearch" if needed. To search around one of their points, pass its coordinates as "lat, lng" for the place.
+- For "how far is A from B", "how big is X", "what is within 500 m of Y" or "is this cafe inside Central Park", use "measureDistance", "measureArea", "bufferFeature" or "pointInArea". They accept names of earlier results (so search first only if the place was not found before) or "lat, lng" coordinates, and compute locally instead of guessing.
+- To plan a tour of several places (e.g. "plan an afternoon visiting these 5 places starting from my hotel"), use "planItinerary" with the start and the stops; it finds the best order and the travel times. To change a plan ("swap stop 2 and 3", "skip the museum", "add a cafe"), call it again with the same start and the stops in the new order with optimize false. The stop list is shown to the user, so only summarize it.
+- If the user wants to download or export results (e.g. "download these restaurants as CSV"), use "exportResults" with the layer name and format. A download button is shown to them.
+- A failed tool returns ok false with an error code, a "retryable" flag and a hint for the user. Explain the failure in a sentence using the hint; the user sees a Retry button for retryable errors, so do not call the same tool with the same input again. For "not_found" or "invalid_input", try once with a corrected input if the mistake is obvious.
 After any tool call, summarize briefly.`;
 
-// Sends API requests to OpenAI through the server-side instead of client-side.
+// Used when the configured model cannot call tools, so it does not claim to have searched or drawn anything
+const NO_TOOLS_SYSTEM = `You are MapChat, a map assistant. Map search, routing and drawing are unavailable with the current model,
+so answer from your own knowledge, say that results cannot be shown on the map, and never invent coordinates.`;
+
+// Used when the user has no tool calls left today
+const NO_QUOTA_SYSTEM = `You are MapChat, a map assistant. The user has used up today's searches and routes, which are available
+again after midnight UTC. Tell them so when they ask for anything on the map, answer other questions from your own knowledge,
+and never invent coordinates.`;
+
+// Describes the result layers the client reports as currently on the map.
+function layerContext(layers: unknown): string {
+  if (!Array.isArray(layers) || !layers.length) return "";
+  const lines = layers.slice(0, 20).map((l: any, i: number) =>
+      `${i + 1}. "${String(l?.name ?? "").slice(0, 80)}" (${String(l?.kind ?? "").slice(0, 20)}, ${Number(l?.featureCount) || 0} features${l?.visible === false ? ", hidden" : ""})${uploadContext(l?.upload)}`);
+  return `\nResult layers currently on the user's map, newest first:\n${lines.join("\n")}`;
+}
+
+// Compact summary of a file the user imported: its columns and the (first) features as name @ lat,lng.
+function uploadContext(upload: any): string {
+  if (!upload || typeof upload !== "object") return "";
+  const props = Array.isArray(upload.properties) ? upload.properties.slice(0, 20).map((p: unknown) => String(p).slice(0, 40)) : [];
+  const points = Array.isArray(upload.points) ? upload.points.slice(0, 50) : [];
+  const rows = points
+      .filter((p: any) => Number.isFinite(p?.lat) && Number.isFinite(p?.lng))
+      .map((p: any) => `   - ${String(p.name ?? "").slice(0, 80)} @ ${p.lat}, ${p.lng}`);
+  const skipped = Number(upload.skipped) > 0 ? `, ${Number(upload.skipped)} rows skipped as invalid` : "";
+  return ` — uploaded by the user${skipped}; columns: ${props.join(", ") || "none"}\n${rows.join("\n")}`;
+}
+
+// Sends API requests to the configured model (see lib/llm) through the server-side instead of client-side.
 export async function POST(req: NextRequest) {
+  // every message counts as a chat turn; unknown users get a 401, users over a limit a 429
+  const access = await authorize(req, "chat");
+  if (!access.ok) return access.response;
   const body = await req.json().catch(() => ({ messages: [] }));
-  const { messages, data } = body;
+  const { id, messages, layers } = body;
+  // the map view and (when shared) the user's location; tools get it as context to fill in coordinates
+  const context = parseChatContext(body);
+  const { model, maxSteps } = getChatModel();
+  // models without tool calling still chat, just without the map tools (a warning is logged once)
+  const toolSupport = await getToolSupport();
+  // the tool quota is checked per turn, so the last turn of the day may go a few calls over it
+  const useTools = toolSupport.ok && access.toolCallsLeft > 0;
+  const system = useTools ? SYSTEM : toolSupport.ok ? NO_QUOTA_SYSTEM : NO_TOOLS_SYSTEM;
+  // earlier tool results are converted with the tools too, so the model reads their summaries, not their geometry
+  const tools = createMapTools(messages);
 
   const result = streamText({
-    model: openai(process.env.OPENAI_MODEL_NAME ?? "gpt-4.1-nano"),
-    system: SYSTEM,
-    messages: convertToModelMessages(messages),
+    model,
+    system: system + chatContextPrompt(context) + layerContext(layers),
+    messages: convertToModelMessages(messages, { tools }),
     // Define server-side tools
-    tools: {
-      nominatimSearch: nominatimSearchTool,
-      foursquareByPlace: foursquareByPlaceTool,
-    },
-    stopWhen: stepCountIs(5)
+    tools: useTools ? tools : undefined,
+    experimental_context: context,
+    stopWhen: stepCountIs(maxSteps),
+    onStepFinish: ({ toolCalls }) => recordToolCalls(access.key, toolCalls.length),
   });
 
-  // Return a UI Message stream so tool calls + results are forwarded to the client
-  return result.toUIMessageStreamResponse();
+  // Return a UI Message stream so tool calls + results are forwarded to the client,
+  // and persist the whole conversation (tool outputs included) under the session id once it is done
+  return result.toUIMessageStreamResponse({
+    originalMessages: messages,
+    onFinish: async ({ messages: all }) => {
+      if (!isValidSessionId(id)) return;
+      try {
+        await getSessionStore().save(id, access.user.id, all);
+      } catch (err: any) {
+        console.error(`Failed to save session ${id}: ${err?.message ?? err}`);
+      }
+    },
+  });
 }
@@ -0,0 +1,32 @@
+// app/api/export/route.ts
+import { NextResponse } from "next/server";
+import { exportFeatureCollection, EXPORT_FORMATS, isExportFormat } from "../../../lib/export";
+import { authorize } from "../../../lib/auth";
+
+export const runtime = "nodejs";
+
+// Converts a posted FeatureCollection into GeoJSON, KML, GPX or CSV and returns it as a download.
+// Body: { data: FeatureCollection, format: "geojson" | "kml" | "gpx" | "csv", name?: string }
+export async function POST(req: Request) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
+    const body = await req.json().catch(() => null);
+    const { data, format, name } = body ?? {};
+    if (!isExportFormat(format)) {
+        return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+    }
+    if (data?.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+        return NextResponse.json({ error: "data must be a GeoJSON FeatureCollection" }, { status: 400 });
+    }
+    try {
+        const file = exportFeatureCollection(data, format, typeof name === "string" && name.trim() ? name.trim() : undefined);
+        return new NextResponse(file.content, {
+            headers: {
+                "Content-Type": `${file.mimeType}; charset=utf-8`,
+                "Content-Disposition": `attachment; filename="${file.filename.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+            },
+        });
+    } catch (err: any) {
+        return NextResponse.json({ error: err.message || "Unexpected error" }, { status: 500 });
+    }
+}
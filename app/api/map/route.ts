@@ -1,26 +1,35 @@
 // app/api/map/route.ts
 import { NextResponse } from "next/server";
+import { FixtureMissError, fixtureKeyForUrl, withFixture } from "../../../lib/services/fixtures";
+import { authorize } from "../../../lib/auth";
 
 // Sends API requests to MapTiler through the server-side instead of client-side.
-export async function GET() {
+// The style can be recorded and replayed like the other upstreams (UPSTREAM_FIXTURES).
+export async function GET(req: Request) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
     const apiKey = process.env.MAPTILER_API_KEY; // Store in .env.local
     const url = `https://api.maptiler.com/maps/basic-v2/style.json?key=${apiKey}`;
 
     try {
-        const res = await fetch(url);
-        if (!res.ok) {
+        const style = await withFixture("maptiler", fixtureKeyForUrl(url), async () => {
+            const res = await fetch(url);
+            return res.ok
+                ? { ok: true as const, data: await res.json() }
+                : { ok: false as const, status: res.status, statusText: res.statusText };
+        }, (s) => s.ok);
+        if (!style.ok) {
             return NextResponse.json(
-                { error: `Failed to fetch style: ${res.statusText}` },
-                { status: res.status }
+                { error: `Failed to fetch style: ${style.statusText}` },
+                { status: style.status }
             );
         }
 
-        const data = await res.json();
-        return NextResponse.json(data);
+        return NextResponse.json(style.data);
     } catch (err: any) {
         return NextResponse.json(
             { error: err.message || "Unexpected error" },
-            { status: 500 }
+            { status: err instanceof FixtureMissError ? 503 : 500 }
         );
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+// app/api/search/route.ts
+import { NextResponse } from "next/server";
+import { placeSuggestions } from "../../../lib/services/suggest";
+import { authorize } from "../../../lib/auth";
+
+export const runtime = "nodejs";
+
+// Suggestions for the map search box, so the Foursquare key stays on the server.
+// Query: ?q=<at least 3 characters>&lat=<lat>&lng=<lng> (optional bias, e.g. the map center)
+export async function GET(req: Request) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
+    const params = new URL(req.url).searchParams;
+    const query = (params.get("q") ?? "").slice(0, 200);
+    const lat = Number(params.get("lat"));
+    const lng = Number(params.get("lng"));
+    const near = params.has("lat") && params.has("lng") && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+        ? { lat, lng }
+        : undefined;
+    try {
+        return NextResponse.json(await placeSuggestions({ query, near }));
+    } catch (err: any) {
+        return NextResponse.json({ error: err.message || "Unexpected error" }, { status: 500 });
+    }
+}
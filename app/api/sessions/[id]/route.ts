@@ -0,0 +1,59 @@
+// app/api/sessions/[id]/route.ts
+import { NextResponse } from "next/server";
+import { validateUIMessages } from "ai";
+import { getSessionStore, isValidSessionId } from "../../../../lib/sessions";
+import { authorize } from "../../../../lib/auth";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Returns one stored session with its messages (and therefore its tool outputs).
+export async function GET(req: Request, { params }: Params) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
+    const { id } = await params;
+    if (!isValidSessionId(id)) return NextResponse.json({ error: "Invalid session id" }, { status: 400 });
+    try {
+        const session = await getSessionStore().get(id, access.user.id);
+        if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+        return NextResponse.json(session);
+    } catch (err: any) {
+        return NextResponse.json({ error: err.message || "Unexpected error" }, { status: 500 });
+    }
+}
+
+// Saves changes the chat made to a session outside of a chat turn (e.g. a retried tool call).
+// Body: { messages }, the whole conversation.
+export async function PUT(req: Request, { params }: Params) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
+    const { id } = await params;
+    if (!isValidSessionId(id)) return NextResponse.json({ error: "Invalid session id" }, { status: 400 });
+    const body = await req.json().catch(() => null);
+    let messages;
+    try {
+        messages = await validateUIMessages({ messages: body?.messages });
+    } catch (err: any) {
+        return NextResponse.json({ error: `Invalid messages: ${err?.message ?? err}` }, { status: 400 });
+    }
+    try {
+        await getSessionStore().save(id, access.user.id, messages);
+        return new NextResponse(null, { status: 204 });
+    } catch (err: any) {
+        return NextResponse.json({ error: err.message || "Unexpected error" }, { status: 500 });
+    }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
+    const { id } = await params;
+    if (!isValidSessionId(id)) return NextResponse.json({ error: "Invalid session id" }, { status: 400 });
+    try {
+        await getSessionStore().delete(id, access.user.id);
+        return new NextResponse(null, { status: 204 });
+    } catch (err: any) {
+        return NextResponse.json({ error: err.message || "Unexpected error" }, { status: 500 });
+    }
+}
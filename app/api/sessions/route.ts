@@ -0,0 +1,17 @@
+// app/api/sessions/route.ts
+import { NextResponse } from "next/server";
+import { getSessionStore } from "../../../lib/sessions";
+import { authorize } from "../../../lib/auth";
+
+export const runtime = "nodejs";
+
+// Lists the user's stored chat sessions, most recent first (without their messages).
+export async function GET(req: Request) {
+    const access = await authorize(req);
+    if (!access.ok) return access.response;
+    try {
+        return NextResponse.json({ sessions: await getSessionStore().list(access.user.id) });
+    } catch (err: any) {
+        return NextResponse.json({ error: err.message || "Unexpected error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,43 @@
+// app/api/tools/route.ts
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import type { Tool, UIMessage } from "ai";
+import { createMapTools } from "../../../lib/tools";
+import { parseChatContext } from "../../../lib/tools/context";
+import { toolError } from "../../../lib/services/errors";
+import { authorize } from "../../../lib/auth";
+
+export const runtime = "nodejs";
+
+// Re-runs one tool call from the chat (the "Retry" button of a failed tool) with the input the model gave it,
+// and the current map view / location as context.
+// Body: { tool, input, toolCallId, messages, viewport?, location? }; answers with the tool's ToolResult.
+export async function POST(req: Request) {
+    // a retry is a tool call like the chatbot's, so it counts against the same daily quota
+    const access = await authorize(req, "tool");
+    if (!access.ok) return access.response;
+    const body = await req.json().catch(() => null);
+    const messages: UIMessage[] = Array.isArray(body?.messages) ? body.messages : [];
+    const tools: Record<string, Tool> = createMapTools(messages);
+    const name = String(body?.tool ?? "");
+    if (!Object.hasOwn(tools, name)) {
+        return NextResponse.json(toolError("invalid_input", `Unknown tool "${name.slice(0, 40)}"`), { status: 400 });
+    }
+
+    const t = tools[name];
+    // all map tools take zod schemas
+    const input = (t.inputSchema as z.ZodTypeAny).safeParse(body?.input);
+    if (!input.success) {
+        return NextResponse.json(toolError("invalid_input", `Invalid input for ${name}: ${input.error.message}`), { status: 400 });
+    }
+    try {
+        const output = await t.execute!(input.data, {
+            toolCallId: String(body?.toolCallId ?? `retry-${Date.now()}`),
+            messages: [],
+            experimental_context: parseChatContext(body),
+        });
+        return NextResponse.json(output);
+    } catch (err: any) {
+        return NextResponse.json(toolError("upstream_down", err?.message || "Unexpected error"), { status: 500 });
+    }
+}
@@ -2,9 +2,19 @@
 import React, {useEffect, useRef, useState} from "react";
 import {useChat} from "@ai-sdk/react";
 import {Resizable} from 're-resizable'
-import {MessageSquareIcon, XIcon, SendIcon} from 'lucide-react'
+import {MessageSquareIcon, XIcon, SendIcon, HistoryIcon, PlusIcon, DownloadIcon, RotateCwIcon, ChevronsDownIcon} from 'lucide-react'
 import {motion, AnimatePresence, useDragControls} from 'framer-motion'
-import {DefaultChatTransport} from "ai";
+import {DefaultChatTransport, type UIMessage} from "ai";
+import type {ComparisonGroup} from "../lib/tools/types";
+import type {ToolError} from "../lib/services/errors";
+import {layerName, type MapViewport, type UserLocation} from "../lib/layers";
+import {
+    groupColor,
+    type MapLayerSummary,
+    type CandidateChoiceDetail,
+    type PlaceActionDetail,
+    type ToolLayerDetail,
+} from "./layers";
 
 type ToolPart =
     | {
@@ -17,13 +27,63 @@ type ToolPart =
 }
     | any;
 
+type SessionSummary = { id: string; title: string; updatedAt: string; messageCount: number };
+
+// what the chat shows while a tool runs
+const TOOL_PROGRESS: Record<string, string> = {
+    nominatimSearch: "Finding the location...",
+    nominatimReverse: "Looking up what is here...",
+    foursquareByPlace: "Finding the recommendations...",
+    showMore: "Finding more places...",
+    placeDetails: "Loading the place details...",
+    comparePlaces: "Comparing the places...",
+    directions: "Finding the route...",
+    planItinerary: "Planning the itinerary...",
+    measureDistance: "Measuring the distance...",
+    measureArea: "Measuring the area...",
+    bufferFeature: "Drawing the area...",
+    pointInArea: "Checking the area...",
+};
+
+// static tool parts are typed "tool-<name>", dynamic ones carry the name
+const toolNameOf = (p: ToolPart): string => p.toolName ?? String(p.type).replace(/^tool-/, "");
+
 export default function Chat() {
     // record of processed tool calls using their IDs
     const processedIds = useRef<Set<string>>(new Set());
+    // layers currently on the map, sent along with every message so the chatbot can refer to previous results
+    const mapLayers = useRef<MapLayerSummary[]>([]);
+    // what the map shows and, once the user turned on the location button, where they are ("near here" / "near me")
+    const mapViewport = useRef<MapViewport | null>(null);
+    const userLocation = useRef<UserLocation | null>(null);
+    useEffect(() => {
+        const onLayersChanged = (e: Event) => {
+            mapLayers.current = (e as CustomEvent<MapLayerSummary[]>).detail;
+        };
+        const onViewportChanged = (e: Event) => {
+            mapViewport.current = (e as CustomEvent<MapViewport>).detail;
+        };
+        const onLocationChanged = (e: Event) => {
+            userLocation.current = (e as CustomEvent<UserLocation | null>).detail;
+        };
+        window.addEventListener("map-layers-changed", onLayersChanged);
+        window.addEventListener("map-viewport-changed", onViewportChanged);
+        window.addEventListener("user-location-changed", onLocationChanged);
+        return () => {
+            window.removeEventListener("map-layers-changed", onLayersChanged);
+            window.removeEventListener("map-viewport-changed", onViewportChanged);
+            window.removeEventListener("user-location-changed", onLocationChanged);
+        };
+    }, []);
+    // the chat session lives in the URL (?session=<id>) so it survives reloads and can be reopened later
+    const [sessionId, setSessionId] = useState<string | null>(null);
     // use of Vercel's AI SDK
-    const {messages, sendMessage, status, stop} = useChat({
+    const {messages, setMessages, sendMessage, status, stop, error, clearError, regenerate} = useChat<UIMessage>({
+        // only pass the id once known; useChat recreates the chat whenever `id` changes
+        ...(sessionId ? {id: sessionId} : {}),
         transport: new DefaultChatTransport({
             api: '/api/chat',
+            body: () => ({layers: mapLayers.current, viewport: mapViewport.current, location: userLocation.current}),
         }),
         messages: [
             {
@@ -55,6 +115,52 @@ export default function Chat() {
     const containerRef = useRef(null);
     const buttonRef = useRef(null);
 
+    // Pick up the session id from the URL, or start a new session
+    useEffect(() => {
+        const url = new URL(window.location.href);
+        let id = url.searchParams.get("session");
+        if (!id || !/^[A-Za-z0-9_-]{1,64}$/.test(id)) {
+            id = crypto.randomUUID();
+            url.searchParams.set("session", id);
+            window.history.replaceState(null, "", url.toString());
+        }
+        setSessionId(id);
+    }, []);
+
+    // Restore a stored session; the tool outputs in it are then replayed onto the map by the effect below
+    useEffect(() => {
+        if (!sessionId) return;
+        let cancelled = false;
+        fetch(`/api/sessions/${sessionId}`, {cache: "no-store"})
+            .then(res => (res.ok ? res.json() : null))
+            .then((session: { messages: UIMessage[] } | null) => {
+                if (!cancelled && session?.messages?.length) setMessages(session.messages);
+            })
+            .catch(() => {});
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, setMessages]);
+
+    // session list, shown in place of the messages
+    const [showSessions, setShowSessions] = useState(false);
+    const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+    const openSessionList = () => {
+        setShowSessions(s => !s);
+        setSessions(null);
+        fetch("/api/sessions", {cache: "no-store"})
+            .then(res => res.json())
+            .then(body => setSessions(body.sessions ?? []))
+            .catch(() => setSessions([]));
+    };
+    // reopening a session reloads the page so the map starts clean and only shows that session's results
+    const openSession = (id?: string) => {
+        const url = new URL(window.location.href);
+        if (id) url.searchParams.set("session", id);
+        else url.searchParams.delete("session");
+        window.location.assign(url.toString());
+    };
+
     // When tool results arrive, dispatch them to the Map via a custom DOM event
     useEffect(() => {
         for (const m of messages) {
@@ -73,8 +179,17 @@ export default function Chat() {
                     try {
                         // Expect { ok: true, data: <FeatureCollection> } from our tool
                         if (output.ok && output.data && output.data.type === "FeatureCollection") {
-                            if (output.source === "nominatim") window.dispatchEvent(new CustomEvent("nominatim-tool-complete", {detail: output.data}));
-                            else window.dispatchEvent(new CustomEvent("fsq-tool-complete", {detail: output.data}));
+                            // each result becomes its own layer on the map, named after what was asked for
+                            const detail: ToolLayerDetail = {id: callId, name: layerName(part.toolName ?? type, part.input, output), data: output.data};
+                            // a further page of recommendations goes into the layer of the first page
+                            if (output.page && output.page.layer !== callId) window.dispatchEvent(new CustomEvent("fsq-tool-complete", {detail: {...detail, id: output.page.layer, append: true}}));
+                            else if (output.source === "nominatim") window.dispatchEvent(new CustomEvent("nominatim-tool-complete", {detail}));
+                            else if (output.source === "route") window.dispatchEvent(new CustomEvent("route-tool-complete", {detail}));
+                            else if (output.source === "analysis") window.dispatchEvent(new CustomEvent("analysis-tool-complete", {detail}));
+                            else if (output.source === "compare") window.dispatchEvent(new CustomEvent("compare-tool-complete", {detail}));
+                            // an edited plan replaces the previous one on the map
+                            else if (output.source === "itinerary") window.dispatchEvent(new CustomEvent("itinerary-tool-complete", {detail: {...detail, id: "itinerary"}}));
+                            else window.dispatchEvent(new CustomEvent("fsq-tool-complete", {detail}));
                         }
                     } catch {
                     }
@@ -83,6 +198,150 @@ export default function Chat() {
         }
     }, [messages]);
 
+    // runs one tool outside of a chat turn through /api/tools, with the conversation and map view as context
+    const runTool = async (tool: string, input: unknown, toolCallId: string): Promise<any> => {
+        try {
+            const res = await fetch("/api/tools", {
+                method: "POST",
+                headers: {"Content-Type": "application/json"},
+                body: JSON.stringify({
+                    tool,
+                    input,
+                    toolCallId,
+                    messages,
+                    viewport: mapViewport.current,
+                    location: userLocation.current,
+                }),
+            });
+            return await res.json();
+        } catch (err: any) {
+            const error: ToolError = {ok: false, code: "upstream_down", error: err?.message ?? String(err), retryable: true, hint: "Check your connection, then retry."};
+            return error;
+        }
+    };
+
+    // Changes made to the conversation outside of a chat turn are saved to the session once they are in the
+    // messages (a chat turn saves it when it finishes)
+    const unsaved = useRef(false);
+    useEffect(() => {
+        if (!unsaved.current || !sessionId || isLoading) return;
+        unsaved.current = false;
+        fetch(`/api/sessions/${sessionId}`, {
+            method: "PUT",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({messages}),
+        }).catch(() => {});
+    }, [messages, sessionId, isLoading]);
+
+    // Re-runs a tool call through /api/tools; its input and new output replace the old ones in the message,
+    // so the map redraws the layer, the chatbot sees the result in the next turn and the session keeps it
+    const rerunTool = async (part: ToolPart, input: unknown, track: React.Dispatch<React.SetStateAction<string[]>>) => {
+        const callId: string = part.toolCallId;
+        track(ids => [...ids, callId]);
+        const output = await runTool(toolNameOf(part), input, callId);
+        processedIds.current.delete(callId);
+        unsaved.current = true;
+        setMessages(prev => prev.map(m => ({
+            ...m,
+            parts: m.parts.map(p => ((p as ToolPart).toolCallId === callId ? {...p, state: "output-available", input, output, errorText: undefined} : p)) as UIMessage["parts"],
+        })));
+        track(ids => ids.filter(id => id !== callId));
+    };
+
+    // A failed tool call re-runs with the same input
+    const [retrying, setRetrying] = useState<string[]>([]);
+    const retryTool = (part: ToolPart) => rerunTool(part, part.input, setRetrying);
+
+    // Picking one of the candidates of an ambiguous place name (a chip in the chat or a numbered pin on the map)
+    // continues the original request with that candidate; the layer takes its name and the session keeps the choice
+    const [choosing, setChoosing] = useState<string[]>([]);
+    const chooseCandidate = (callId: string, index: number) => {
+        const part = messages.flatMap(m => m.parts as ToolPart[]).find(p => p.toolCallId === callId);
+        const option = part?.output?.disambiguation?.options?.[index];
+        if (option && !choosing.includes(callId)) void rerunTool(part, option.input, setChoosing);
+    };
+    const chooseCandidateRef = useRef(chooseCandidate);
+    useEffect(() => {
+        chooseCandidateRef.current = chooseCandidate;
+    });
+    useEffect(() => {
+        const onCandidateChosen = (e: Event) => {
+            const {id, index} = (e as CustomEvent<CandidateChoiceDetail>).detail;
+            chooseCandidateRef.current(id, index);
+        };
+        window.addEventListener("map-candidate-chosen", onCandidateChosen);
+        return () => window.removeEventListener("map-candidate-chosen", onCandidateChosen);
+    }, []);
+
+    // "Show more" under recommendations runs the showMore tool and adds it to the message as a tool call of its own,
+    // so the map appends the page to the layer, the chatbot sees it in the next turn and the session keeps it
+    const [loadingMore, setLoadingMore] = useState<string[]>([]);
+    const showMore = async (messageId: string, part: ToolPart) => {
+        const layer: string = part.output.page.layer;
+        setLoadingMore(ids => [...ids, layer]);
+        const callId = `more-${layer}-${Date.now()}`;
+        const output = await runTool("showMore", {layer}, callId);
+        const page = {type: "tool-showMore", toolCallId: callId, state: "output-available", input: {layer}, output};
+        unsaved.current = true;
+        setMessages(prev => prev.map(m => (m.id === messageId ? {...m, parts: [...m.parts, page] as UIMessage["parts"]} : m)));
+        setLoadingMore(ids => ids.filter(id => id !== layer));
+    };
+    const newestPages = latestPages(messages);
+
+    // Sign-in problems and rate limits of the API routes: from a chat turn, or from the map failing to load
+    // (which then needs a reload once the user signed in)
+    const [mapProblem, setMapProblem] = useState<ApiProblem | null>(null);
+    useEffect(() => {
+        const onAuthRequired = (e: Event) => {
+            setMapProblem((e as CustomEvent<ApiProblem | null>).detail ?? {error: "Sign-in required"});
+            setIsOpen(true);
+        };
+        window.addEventListener("auth-required", onAuthRequired);
+        return () => window.removeEventListener("auth-required", onAuthRequired);
+    }, []);
+    const accessProblem = apiProblemOf(error) ?? mapProblem;
+    const resolveAccessProblem = () => {
+        if (mapProblem) {
+            window.location.reload();
+            return;
+        }
+        clearError();
+        void regenerate();
+    };
+
+    // When the user asks about a coordinate from the map, open the chat and send it as a message
+    useEffect(() => {
+        const onLocationQuery = (e: Event) => {
+            const {lat, lng} = (e as CustomEvent<{ lat: number; lng: number }>).detail;
+            setIsOpen(true);
+            sendMessage({text: `What is here? (${lat}, ${lng})`});
+        };
+        window.addEventListener("map-location-query", onLocationQuery);
+        return () => window.removeEventListener("map-location-query", onLocationQuery);
+    }, [sendMessage]);
+
+    // Marker popup actions start a chat turn about that exact place, identified by its fsq_id
+    const inputRef = useRef<HTMLInputElement | null>(null);
+    useEffect(() => {
+        const onPlaceAction = (e: Event) => {
+            const {action, fsqId, name, lat, lng, categories} = (e as CustomEvent<PlaceActionDetail>).detail;
+            const where = `${lat}, ${lng}`;
+            setIsOpen(true);
+            if (action === "directions") {
+                // the destination is up to the user
+                setInput(`Directions from ${name} (${where}) to `);
+                requestAnimationFrame(() => inputRef.current?.focus());
+            } else if (action === "ask") {
+                sendMessage({text: `Tell me about ${name} (fsq_id: ${fsqId}, at ${where})`});
+            } else {
+                const kind = categories.length ? `, ${categories.join(", ")}` : "";
+                sendMessage({text: `Find places similar to ${name} (fsq_id: ${fsqId}${kind}) near ${where}`});
+            }
+        };
+        window.addEventListener("map-place-action", onPlaceAction);
+        return () => window.removeEventListener("map-place-action", onPlaceAction);
+    }, [sendMessage]);
+
     // the following are styling useEffects and event handlers
     const clampToBounds = () => {
         const el = chatbotRef.current as HTMLElement | null;
@@ -303,6 +562,20 @@ export default function Chat() {
                                     <span className="font-medium noselect">MapChat</span>
                                 </div>
                                 <div className="flex space-x-2">
+                                    <button
+                                        onClick={() => openSession()}
+                                        className="hover:bg-blue-700 p-1 rounded"
+                                        title="New chat"
+                                    >
+                                        <PlusIcon size={16} />
+                                    </button>
+                                    <button
+                                        onClick={() => openSessionList()}
+                                        className={`hover:bg-blue-700 p-1 rounded ${showSessions ? "bg-blue-700" : ""}`}
+                                        title="Previous chats"
+                                    >
+                                        <HistoryIcon size={16} />
+                                    </button>
                                     <button
                                         onClick={() => toggleChatWindow()}
                                         className="hover:bg-blue-700 p-1 rounded"
@@ -311,7 +584,12 @@ export default function Chat() {
                                     </button>
                                 </div>
                             </div>
-                            <div className="messages custom-scrollbar" id="messages">
+                            {showSessions && (
+                                <div className="messages custom-scrollbar">
+                                    <SessionList sessions={sessions} currentId={sessionId} onOpen={openSession} />
+                                </div>
+                            )}
+                            <div className="messages custom-scrollbar" id="messages" hidden={showSessions}>
                                 {messages.map((m) => (
                                     <div key={m.id} className={`msg ${(m.role as string) === "user" ? "user" : "assistant"}`}>
                                         <div className="badge">{(m.role as string) === "user" ? "You" : "MapChat"}</div>
@@ -321,17 +599,42 @@ export default function Chat() {
                                                 if ((p.type?.startsWith?.("tool-") || p.type === "dynamic-tool")) {
                                                     return (
                                                         <div key={i}>
-                                                            {p.state?.includes("input-available") && p.toolName && p.toolName.includes("nominatimSearch") && (
-                                                                <div className="text-xs font-light">Finding the location...</div>
+                                                            <ToolStatus part={p} retrying={retrying.includes(p.toolCallId)} onRetry={() => retryTool(p)} />
+                                                            {p.state?.includes("output-available") && p.output?.ok && p.output?.data?.type === "FeatureCollection" && !p.output.disambiguation && !["route", "analysis", "compare", "itinerary"].includes(p.output.source) && (
+                                                                <div className="text-xs font-light">
+                                                                    {p.output.page?.page > 1 ? p.output.summary : `Found and added ${p.output.data.features.length} locations to map!`}
+                                                                </div>
+                                                            )}
+                                                            {p.state?.includes("output-available") && p.output?.ok && p.output.disambiguation && (
+                                                                <CandidateChips
+                                                                    options={p.output.disambiguation.options}
+                                                                    busy={choosing.includes(p.toolCallId)}
+                                                                    onChoose={(index) => chooseCandidate(p.toolCallId, index)}
+                                                                />
+                                                            )}
+                                                            {p.state?.includes("output-available") && p.output?.ok && p.output.page?.cursors?.length > 0 && newestPages.get(p.output.page.layer) === p.toolCallId && (
+                                                                <button className="popup-action" disabled={loadingMore.includes(p.output.page.layer)} onClick={() => showMore(m.id, p)}>
+                                                                    <ChevronsDownIcon size={12} className="inline mr-1" />
+                                                                    {loadingMore.includes(p.output.page.layer) ? "Loading..." : "Show more"}
+                                                                </button>
+                                                            )}
+                                                            {p.state?.includes("output-available") && p.output?.ok && p.output.source === "route" && (
+                                                                <RouteSteps route={p.output.data.features[0]?.properties} />
                                                             )}
-                                                            {p.state?.includes("input-available") && p.toolName && p.toolName.includes("foursquareSearch") && (
-                                                                <div className="text-xs font-light">Finding the recommendations...</div>
+                                                            {p.state?.includes("output-available") && p.output?.ok && p.output.source === "compare" && (
+                                                                <ComparisonTable groups={p.output.comparison ?? []} />
                                                             )}
-                                                            {p.state?.includes("error") && p.output?.ok === false && (
-                                                                <div className="text-xs font-light text-red-500">Tool error: {p.output.error}</div>
+                                                            {p.state?.includes("output-available") && p.output?.ok && (p.output.source === "analysis" || p.output.source === "itinerary") && (
+                                                                <div className="text-xs font-light">{p.output.summary}</div>
                                                             )}
-                                                            {p.state?.includes("output-available") && p.output?.ok && p.output?.data?.type === "FeatureCollection" && (
-                                                                <div className="text-xs font-light">Found and added {p.output.data.features.length} locations to map!</div>
+                                                            {p.state?.includes("output-available") && p.output?.ok && p.output.export && (
+                                                                <button
+                                                                    className="popup-action"
+                                                                    onClick={() => window.dispatchEvent(new CustomEvent("map-export", {detail: p.output.export}))}
+                                                                >
+                                                                    <DownloadIcon size={12} className="inline mr-1" />
+                                                                    Download {p.output.export.layer === "all" ? "map" : p.output.export.layer} as {String(p.output.export.format).toUpperCase()}
+                                                                </button>
                                                             )}
                                                         </div>
                                                     );
@@ -346,6 +649,7 @@ export default function Chat() {
                                         )}
                                     </div>
                                 ))}
+                                {accessProblem && <AccessNotice problem={accessProblem} onResolved={resolveAccessProblem} />}
                                 <div ref={messagesEndRef} />
                             </div>
 
@@ -357,6 +661,7 @@ export default function Chat() {
                                 }
                             }}>
                                 <input
+                                    ref={inputRef}
                                     value={input}
                                     onChange={(e) => setInput(e.target.value)}
                                     placeholder="Ask about a place or for recommendations..."
@@ -373,4 +678,194 @@ export default function Chat() {
             </AnimatePresence>
         </>
     );
-}
\ No newline at end of file
+}
+
+// tool call id of the newest page of every paged result; only that one offers "Show more"
+function latestPages(messages: UIMessage[]): Map<string, string> {
+    const out = new Map<string, string>();
+    for (const m of messages) {
+        for (const p of m.parts as ToolPart[]) {
+            if (p?.output?.ok && p.output.page) out.set(p.output.page.layer, p.toolCallId);
+        }
+    }
+    return out;
+}
+
+// an API route's refusal (401/429) with its ToolError body; signIn is set when signing in with a token helps
+type ApiProblem = Partial<ToolError> & { signIn?: boolean };
+
+// the chat transport puts the body of a failed response into the error message
+function apiProblemOf(error: Error | undefined): ApiProblem | null {
+    if (!error) return null;
+    try {
+        const body = JSON.parse(error.message);
+        if (body?.ok === false) return body;
+    } catch {
+    }
+    return {error: error.message || "Something went wrong", retryable: true};
+}
+
+// why a message was not answered, with what the user can do about it: sign in, wait, or retry
+function AccessNotice({problem, onResolved}: { problem: ApiProblem; onResolved: () => void }) {
+    const [token, setToken] = useState("");
+    const [signInError, setSignInError] = useState<string | null>(null);
+    const signIn = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSignInError(null);
+        try {
+            const res = await fetch("/api/auth", {
+                method: "POST",
+                headers: {"Content-Type": "application/json"},
+                body: JSON.stringify({token}),
+            });
+            if (res.ok) return onResolved();
+            const body = await res.json().catch(() => null);
+            setSignInError(body?.error ?? `Sign-in failed: ${res.status}`);
+        } catch (err: any) {
+            setSignInError(err?.message ?? String(err));
+        }
+    };
+    return (
+        <div className="tool-error text-xs font-light">
+            <div className="text-red-500">{problem.error ?? "Something went wrong"}</div>
+            {problem.hint && <div>{problem.hint}</div>}
+            {problem.signIn && (
+                <form className="sign-in" onSubmit={signIn}>
+                    <input
+                        type="password"
+                        value={token}
+                        onChange={(e) => setToken(e.target.value)}
+                        placeholder="Access token"
+                        aria-label="Access token"
+                        autoComplete="current-password"
+                    />
+                    <button className="popup-action" type="submit" disabled={!token.trim()}>Sign in</button>
+                </form>
+            )}
+            {signInError && <div className="text-red-500">{signInError}</div>}
+            {problem.retryable && (
+                <button className="popup-action" onClick={onResolved}>
+                    <RotateCwIcon size={12} className="inline mr-1" />
+                    Retry
+                </button>
+            )}
+        </div>
+    );
+}
+
+// progress of a running tool, or what went wrong with a hint and (when it can help) a retry button
+function ToolStatus({part, retrying, onRetry}: { part: ToolPart; retrying: boolean; onRetry: () => void }) {
+    const running = part.state === "input-streaming" || part.state === "input-available";
+    if (running || retrying) {
+        return <div className="text-xs font-light">{retrying ? "Retrying..." : TOOL_PROGRESS[toolNameOf(part)] ?? "Working on it..."}</div>;
+    }
+    // a tool that threw (state "output-error") has no ToolResult, only a message
+    const failed: Partial<ToolError> | null = part.state === "output-error"
+        ? {error: part.errorText, retryable: true}
+        : part.state === "output-available" && part.output?.ok === false ? part.output : null;
+    if (!failed) return null;
+    return (
+        <div className="tool-error text-xs font-light">
+            <div className="text-red-500">{failed.error ?? "The tool failed"}</div>
+            {failed.hint && <div>{failed.hint}</div>}
+            {failed.retryable && (
+                <button className="popup-action" onClick={onRetry}>
+                    <RotateCwIcon size={12} className="inline mr-1" />
+                    Retry
+                </button>
+            )}
+        </div>
+    );
+}
+
+// numbered choices for an ambiguous place name, matching the numbered pins on the map
+function CandidateChips({options, busy, onChoose}: { options: { label: string }[]; busy: boolean; onChoose: (index: number) => void }) {
+    return (
+        <div className="text-xs font-light">
+            <div>{busy ? "Continuing with your choice..." : "Which one do you mean?"}</div>
+            <div className="popup-actions">
+                {options.map((o, i) => (
+                    <button key={i} className="popup-action candidate-chip" disabled={busy} title={o.label} onClick={() => onChoose(i)}>
+                        {i + 1}. {o.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+// step list for a route returned by the directions tool
+function RouteSteps({route}: { route?: { profile: string; distance: number; duration: number; steps: { instruction: string; distance: number }[] } }) {
+    if (!route) return null;
+    return (
+        <div className="text-xs font-light">
+            <div>{formatDistance(route.distance)}, about {formatDuration(route.duration)} {route.profile}. Route drawn on the map:</div>
+            <ol className="route-steps">
+                {route.steps.map((st, i) => (
+                    <li key={i}>{st.instruction}{st.distance > 0 ? ` (${formatDistance(st.distance)})` : ""}</li>
+                ))}
+            </ol>
+        </div>
+    );
+}
+
+// side-by-side statistics of a comparePlaces result, one column per place in its map colour
+function ComparisonTable({groups}: { groups: ComparisonGroup[] }) {
+    if (!groups.length) return null;
+    const rows: [string, (g: ComparisonGroup) => React.ReactNode][] = [
+        ["Found", (g) => g.count],
+        ["Avg. rating", (g) => (g.avgRating !== undefined ? `${g.avgRating}/10 (${g.ratedCount})` : "–")],
+        ["Avg. price", (g) => (g.avgPrice !== undefined ? "$".repeat(Math.round(g.avgPrice)) : "–")],
+        ["Best rated", (g) => (g.topRated ? `${g.topRated.name} (${g.topRated.rating})` : "–")],
+        ["Nearest", (g) => (g.nearest ? `${g.nearest.name} (${formatDistance(g.nearest.distance)})` : "–")],
+    ];
+    return (
+        <table className="comparison-table text-xs font-light">
+            <thead>
+            <tr>
+                <th />
+                {groups.map((g, i) => (
+                    <th key={i}><span className="group-swatch" style={{background: groupColor(i)}} />{g.place}</th>
+                ))}
+            </tr>
+            </thead>
+            <tbody>
+            {rows.map(([label, cell]) => (
+                <tr key={label}>
+                    <th>{label}</th>
+                    {groups.map((g, i) => <td key={i}>{g.error ? (label === "Found" ? g.error : "") : cell(g)}</td>)}
+                </tr>
+            ))}
+            </tbody>
+        </table>
+    );
+}
+
+function formatDistance(m: number) {
+    return m >= 1000 ? `${(m / 1000).toFixed(1)} km` : `${Math.round(m)} m`;
+}
+
+function formatDuration(s: number) {
+    const min = Math.round(s / 60);
+    return min >= 60 ? `${Math.floor(min / 60)} h ${min % 60} min` : `${Math.max(min, 1)} min`;
+}
+
+// list of stored chat sessions to reopen
+function SessionList({sessions, currentId, onOpen}: { sessions: SessionSummary[] | null; currentId: string | null; onOpen: (id: string) => void }) {
+    if (!sessions) return <div className="text-xs font-light">Loading previous chats...</div>;
+    if (!sessions.length) return <div className="text-xs font-light">No previous chats yet.</div>;
+    return (
+        <>
+            {sessions.map(s => (
+                <button
+                    key={s.id}
+                    className={`session-item ${s.id === currentId ? "current" : ""}`}
+                    onClick={() => onOpen(s.id)}
+                >
+                    <div>{s.title}</div>
+                    <div className="text-xs font-light">{new Date(s.updatedAt).toLocaleString()} · {s.messageCount} messages</div>
+                </button>
+            ))}
+        </>
+    );
+}
@@ -0,0 +1,131 @@
+"use client";
+import React, { useRef, useState } from "react";
+import { DownloadIcon, EyeIcon, EyeOffIcon, LayersIcon, PencilIcon, Trash2Icon, UploadIcon, ZoomInIcon } from "lucide-react";
+import { EXPORT_FORMATS, type ExportFormat } from "../lib/export";
+import { IMPORT_EXTENSIONS } from "../lib/import";
+import type { ResultLayer } from "./layers";
+
+type LayerPanelProps = {
+  layers: ResultLayer[];
+  onToggle: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onZoom: (id: string) => void;
+  onRemove: (id: string) => void;
+  // exports one layer, or every visible layer for "all"
+  onExport: (id: string, format: ExportFormat) => void;
+  onImport: (files: FileList) => void;
+};
+
+// collapsible list of result layers drawn on the map
+export default function LayerPanel({ layers, onToggle, onRename, onZoom, onRemove, onExport, onImport }: LayerPanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  // id of the layer whose name is being edited, and the draft name
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  // id of the layer (or "all") whose export formats are shown
+  const [exporting, setExporting] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  // files can always be imported, so the panel shows up as a bare import button before any layer exists
+  const importButton = (
+      <>
+        <button onClick={() => fileInput.current?.click()} title={`Import ${IMPORT_EXTENSIONS.join(", ")} files (or drop them on the map)`}>
+          <UploadIcon size={14} />
+        </button>
+        <input
+            ref={fileInput}
+            type="file"
+            multiple
+            hidden
+            accept={IMPORT_EXTENSIONS.join(",")}
+            onChange={(e) => {
+              if (e.target.files?.length) onImport(e.target.files);
+              e.target.value = "";
+            }}
+        />
+      </>
+  );
+
+  if (!layers.length) {
+    return (
+        <div className="layer-panel">
+          <div className="layer-panel-header">
+            <span className="noselect">Import data</span>
+            {importButton}
+          </div>
+        </div>
+    );
+  }
+
+  const commitRename = () => {
+    if (editing && draft.trim()) onRename(editing, draft.trim());
+    setEditing(null);
+  };
+
+  const toggleExport = (id: string) => setExporting((cur) => (cur === id ? null : id));
+  const formatChooser = (id: string) => exporting === id && (
+      <li className="export-formats">
+        {EXPORT_FORMATS.map((f) => (
+            <button key={f} onClick={() => { onExport(id, f); setExporting(null); }}>{f.toUpperCase()}</button>
+        ))}
+      </li>
+  );
+
+  return (
+      <div className="layer-panel">
+        <div className="layer-panel-header">
+          <button onClick={() => setCollapsed((c) => !c)}>
+            <LayersIcon size={16} />
+            <span className="noselect">Layers ({layers.length})</span>
+          </button>
+          {importButton}
+          <button onClick={() => { setCollapsed(false); toggleExport("all"); }} title="Export map">
+            <DownloadIcon size={14} />
+          </button>
+        </div>
+        {!collapsed && (
+            <ul className="custom-scrollbar">
+              {formatChooser("all")}
+              {layers.map((l) => (
+                  <React.Fragment key={l.id}>
+                    <li className={l.visible ? "" : "hidden-layer"}>
+                      <span className="layer-swatch" style={{ backgroundColor: l.color }} />
+                      {editing === l.id ? (
+                          <input
+                              autoFocus
+                              value={draft}
+                              onChange={(e) => setDraft(e.target.value)}
+                              onBlur={commitRename}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") commitRename();
+                                if (e.key === "Escape") setEditing(null);
+                              }}
+                              aria-label="Layer name"
+                          />
+                      ) : (
+                          <span className="layer-name" title={`${l.name} (${l.featureCount} features)`}>{l.name}</span>
+                      )}
+                      <button onClick={() => onToggle(l.id)} title={l.visible ? "Hide" : "Show"}>
+                        {l.visible ? <EyeIcon size={14} /> : <EyeOffIcon size={14} />}
+                      </button>
+                      <button onClick={() => { setEditing(l.id); setDraft(l.name); }} title="Rename">
+                        <PencilIcon size={14} />
+                      </button>
+                      <button onClick={() => onZoom(l.id)} title="Zoom to">
+                        <ZoomInIcon size={14} />
+                      </button>
+                      <button onClick={() => toggleExport(l.id)} title="Export">
+                        <DownloadIcon size={14} />
+                      </button>
+                      <button onClick={() => onRemove(l.id)} title="Remove">
+                        <Trash2Icon size={14} />
+                      </button>
+                    </li>
+                    {formatChooser(l.id)}
+                  </React.Fragment>
+              ))}
+            </ul>
+        )}
+      </div>
+  );
+}
@@ -1,13 +1,52 @@
 "use client";
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import maplibregl, { Map as MaplibreMap } from "maplibre-gl";
-import type {Feature, FeatureCollection} from "geojson";
+import type {FeatureCollection, Point} from "geojson";
+import LayerPanel from "./LayerPanel";
+import SearchBox from "./SearchBox";
+import MapLegend from "./MapLegend";
+import type { ExportFormat } from "../lib/export";
+import { IMPORT_EXTENSIONS, MAX_IMPORT_BYTES, parseImportFile, summarizeImport } from "../lib/import";
+import type { MapViewport, UserLocation } from "../lib/layers";
+import {
+  type CandidateChoiceDetail,
+  groupColor,
+  LAYER_COLORS,
+  type LayerKind,
+  type MapLayerSummary,
+  type PlaceActionDetail,
+  type ResultLayer,
+  type ToolLayerDetail,
+} from "./layers";
+import { CATEGORY_GROUPS, categoryGroup, categoryIcon, countCategories } from "./categories";
+
+// tool events and the kind of layer they produce
+const TOOL_EVENTS: Record<string, LayerKind> = {
+  "nominatim-tool-complete": "nominatim",
+  "fsq-tool-complete": "fsq",
+  "route-tool-complete": "route",
+  "analysis-tool-complete": "analysis",
+  "compare-tool-complete": "compare",
+  "itinerary-tool-complete": "itinerary",
+  "upload-layer-complete": "upload",
+};
+
+// outcome of one imported file, shown until dismissed
+type ImportReport = { file: string; imported: number; errors: string[] };
 
 // main map creation
 export default function MapCreator() {
   const mapRef = useRef<MaplibreMap | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const markers = useRef<maplibregl.Marker[] | null>([]);
+  // every tool result becomes its own named layer (newest first); data and itinerary markers are kept per layer id
+  const [layers, setLayers] = useState<ResultLayer[]>([]);
+  // `name` is the one the tool gave the layer, to tell whether the user renamed it
+  const layerData = useRef(new Map<string, { fc: FeatureCollection; kind: LayerKind; color: string; name: string }>());
+  const layerMarkers = useRef(new Map<string, maplibregl.Marker[]>());
+  const colorIndex = useRef(0);
+  // drag-and-drop import of the user's own files
+  const [dragging, setDragging] = useState(false);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
 
   // initialisation of map
   useEffect(() => {
@@ -16,6 +55,15 @@ export default function MapCreator() {
 
     const ctrl = new AbortController();
     let disposed = false;
+    const data = layerData.current;
+    const markers = layerMarkers.current;
+
+    // tool results can arrive before the map has loaded (e.g. replayed from a stored session),
+    // so queue them until the real handler is attached
+    const early: Event[] = [];
+    const queueEarly = (e: Event) => early.push(e);
+    Object.keys(TOOL_EVENTS).forEach((name) => window.addEventListener(name, queueEarly));
+    const stopQueueing = () => Object.keys(TOOL_EVENTS).forEach((name) => window.removeEventListener(name, queueEarly));
 
     // wraps all the necessary map initiations in async so that other async functions can be used
     (async () => {
@@ -26,6 +74,8 @@ export default function MapCreator() {
           cache: "no-store",
           signal: ctrl.signal,
         });
+        // the chat window offers to sign in when the API needs it
+        if (res.status === 401) window.dispatchEvent(new CustomEvent("auth-required", { detail: await res.json().catch(() => null) }));
         if (!res.ok) throw new Error(`Failed to fetch map style: ${res.status} ${res.statusText}`);
 
         const mapStyle: maplibregl.StyleSpecification = await res.json();
@@ -40,154 +90,137 @@ export default function MapCreator() {
           zoom: 3,
         });
         map.addControl(new maplibregl.NavigationControl({ showZoom: true }), "top-right");
+
+        // the location button is the user's opt-in to share where they are with the chatbot ("near me")
+        const geolocate = new maplibregl.GeolocateControl({ positionOptions: { enableHighAccuracy: true }, trackUserLocation: true });
+        map.addControl(geolocate, "top-right");
+        geolocate.on("geolocate", (pos: GeolocationPosition) => {
+          const detail: UserLocation = { lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy };
+          window.dispatchEvent(new CustomEvent("user-location-changed", { detail }));
+        });
+        // "trackuserlocationend" is also fired when the camera merely leaves the position, then directly followed
+        // by "userlocationlostfocus"; only turning the button off (or denying the permission) stops sharing
+        const stopSharing = () => window.dispatchEvent(new CustomEvent("user-location-changed", { detail: null }));
+        let lostFocus = false;
+        geolocate.on("userlocationlostfocus", () => { lostFocus = true; });
+        geolocate.on("trackuserlocationend", () => {
+          lostFocus = false;
+          queueMicrotask(() => { if (!lostFocus) stopSharing(); });
+        });
+        geolocate.on("error", (err: GeolocationPositionError) => {
+          if (err.code === 1) stopSharing(); // PERMISSION_DENIED
+        });
+
+        // let the chat know what the user is looking at, for "near here" questions
+        const reportViewport = () => {
+          const b = map.getBounds();
+          const c = map.getCenter();
+          const detail: MapViewport = {
+            bbox: [b.getWest(), b.getSouth(), b.getEast(), b.getNorth()],
+            center: { lat: c.lat, lng: c.lng },
+            zoom: map.getZoom(),
+          };
+          window.dispatchEvent(new CustomEvent("map-viewport-changed", { detail }));
+        };
+        map.on("moveend", reportViewport);
+        map.once("load", reportViewport);
         mapRef.current = map;
 
         // 3) wire up your custom events AFTER map exists
 
-        // For nominatim tool, draw out the found location on the map
-        const markNominatimResults = (e: Event) => {
-          const ce = e as CustomEvent<FeatureCollection>;
-          const fc = ce.detail;
+        // For every tool, draw the result as a new layer (or replace the layer of the same tool call);
+        // further pages of recommendations are added to the layer of their first page
+        const markToolResults = (e: Event) => {
+          const kind = TOOL_EVENTS[e.type];
+          const { id, name, data: result, upload, append } = (e as CustomEvent<ToolLayerDetail>).detail;
           const map = mapRef.current!;
-          const sourceId = "search-result";
-
-          if (markers.current!.length > 0) {
-            // remove all previous markers
-            for (const m of markers.current!) {
-              m.remove();
-            }
-            markers.current! = [];
-          }
 
-          if (map.getSource(sourceId)) {
-            (map.getSource(sourceId) as any).setData(fc);
-          } else {
-            // drawing functions
-            map.addSource(sourceId, { type: "geojson", data: fc });
-
-            map.addLayer({
-              id: "search-result-fill",
-              type: "fill",
-              source: sourceId,
-              paint: { "fill-opacity": 0.25 },
-            });
-            map.addLayer({
-              id: "search-result-line",
-              type: "line",
-              source: sourceId,
-              paint: { "line-width": 2 },
-            });
-            map.addLayer({
-              id: "search-result-point",
-              type: "circle",
-              source: sourceId,
-              paint: { "circle-radius": 4 },
-            });
-          }
-
-          // fit bounds
-          const coords = collectCoords(fc);
-          if (coords.length > 0) {
-            const bounds = new maplibregl.LngLatBounds();
-            coords.forEach(([lng, lat]) => bounds.extend([lng, lat]));
-            map.fitBounds(bounds as maplibregl.LngLatBoundsLike, { padding: 40, duration: 500 });
-          }
+          const prev = data.get(id);
+          const fc: FeatureCollection = append && prev ? { ...prev.fc, features: [...prev.fc.features, ...result.features] } : result;
+          const color = prev?.color ?? LAYER_COLORS[colorIndex.current++ % LAYER_COLORS.length];
+          const featureCount = fc.features.length;
+          const categories = countCategories(fc.features);
+          // a re-run result (e.g. the candidate picked for an ambiguous name) renames the layer unless the user did
+          const toolName = append && prev ? prev.name : name;
+          data.set(id, { fc, kind, color, name: toolName });
+          drawResultLayer(map, { id, kind, color }, fc, markers);
+          setLayers((layers) => layers.some((l) => l.id === id)
+              ? layers.map((l) => (l.id === id ? { ...l, kind, featureCount, categories, name: l.name === prev?.name ? toolName : l.name } : l))
+              : [{ id, name, kind, color, visible: true, featureCount, upload, categories }, ...layers]);
+          fitToFeatures(map, fc);
         };
 
-        // For foursquare tool, draw the search center on the map, then pin the recommended places with details
-        const markFSQResults = (e: Event) => {
-          const ce = e as CustomEvent<FeatureCollection>;
-          const fc = ce.detail;
-          const map = mapRef.current!;
-          const scSourceId = "search-result";
-          const fsqSourceId = "recommendation-result";
-
-          const sc: Feature[] = [];
-          const recs: Feature[] = [];
-
-          // separate search center and recommendations in separate FeatureCollections
-          fc.features.map((f) => {
-            if (f.properties?.source === "nominatim") {
-              sc.push(f);
-            } else {
-              recs.push(f);
-            }
-          })
-          // search center feature collection
-          const scfc = {
-            type: "FeatureCollection",
-            features: sc
-          } as FeatureCollection;
-          // recommendations feature collection
-          const recfc = {
-            type: "FeatureCollection",
-            features: recs
-          } as FeatureCollection;
-
-          if (map.getSource(scSourceId)) {
-            (map.getSource(scSourceId) as any).setData(scfc);
-          } else {
-            map.addSource(scSourceId, {type: "geojson", data: scfc});
-
-            map.addLayer({
-              id: "search-result-fill",
-              type: "fill",
-              source: scSourceId,
-              paint: {"fill-opacity": 0.25},
-            });
-            map.addLayer({
-              id: "search-result-line",
-              type: "line",
-              source: scSourceId,
-              paint: {"line-width": 2},
-            });
-            map.addLayer({
-              id: "search-result-point",
-              type: "circle",
-              source: scSourceId,
-              paint: {"circle-radius": 4},
-            });
-          }
+        // marker icons of the category groups are drawn on first use
+        map.on("styleimagemissing", (e) => {
+          const group = CATEGORY_GROUPS.find((g) => `poi-${g.id}` === e.id);
+          const image = group && categoryIcon(group);
+          if (image && !map.hasImage(e.id)) map.addImage(e.id, image, { pixelRatio: 2 });
+        });
 
-          if (map.getSource(fsqSourceId)) {
-            (map.getSource(fsqSourceId) as any).setData(recfc);
-          } else {
-            map.addSource(fsqSourceId, { type: "geojson", data: recfc });
+        // recommendations are drawn from clustered sources: a click on a cluster zooms into it, a click on
+        // a place opens its popup with the full properties kept in layerData (the source only has a few)
+        const isRecommendation = (f: maplibregl.MapGeoJSONFeature) => /^result-.+-(poi|clusters)$/.test(f.layer.id);
+        const placePopup = new maplibregl.Popup({ offset: 14 });
+        map.on("click", (e) => {
+          const hit = map.queryRenderedFeatures(e.point).find(isRecommendation);
+          if (!hit) return;
+          const coords = (hit.geometry as Point).coordinates as [number, number];
+          if (hit.properties.cluster) {
+            const source = map.getSource(hit.layer.source) as maplibregl.GeoJSONSource;
+            void source.getClusterExpansionZoom(hit.properties.cluster_id).then((zoom) => map.easeTo({ center: coords, zoom }));
+            return;
           }
+          const layerId = hit.layer.source.replace(/^result-/, "").replace(/-poi$/, "");
+          const f = data.get(layerId)?.fc.features[hit.properties.poi_index];
+          if (f) placePopup.setLngLat(coords).setDOMContent(fsqPopupContent(f.properties!, coords)).addTo(map);
+        });
+        map.on("mousemove", (e) => {
+          map.getCanvas().style.cursor = map.queryRenderedFeatures(e.point).some(isRecommendation) ? "pointer" : "";
+        });
 
-          if (markers.current!.length > 0) {
-            // remove all previous markers
-            for (const m of markers.current!) {
-              m.remove();
-            }
-            markers.current! = [];
-          }
-          for (const f of recfc.features) {
-            const marker = new maplibregl.Marker()
-                .setLngLat((f.geometry as any).coordinates)
-                .setPopup(new maplibregl.Popup().setHTML(`
-                  <strong>${f.properties!.name}</strong>
-                  <p>${f.properties!.address ?? "-"}<br>${f.properties!.distance ? `${f.properties!.distance}m from location` : "-"}<br>Tags: ${f.properties!.categories.join(", ") ?? "-"}</p>`))
-                .addTo(map);
-            markers.current!.push(marker);
-          }
+        // Right-click (or long-press on touch screens) offers to ask the chatbot about the clicked coordinate
+        const locationPopup = new maplibregl.Popup({ closeButton: true });
+        const openLocationQuery = (lngLat: maplibregl.LngLat) => {
+          const lat = Number(lngLat.lat.toFixed(5));
+          const lng = Number(lngLat.lng.toFixed(5));
+          const content = document.createElement("div");
+          content.innerHTML = `<p>${lat}, ${lng}</p>`;
+          const ask = document.createElement("button");
+          ask.textContent = "What is here?";
+          ask.className = "popup-action";
+          ask.onclick = () => {
+            window.dispatchEvent(new CustomEvent("map-location-query", { detail: { lat, lng } }));
+            locationPopup.remove();
+          };
+          content.appendChild(ask);
+          locationPopup.setLngLat(lngLat).setDOMContent(content).addTo(map);
+        };
+        map.on("contextmenu", (e) => openLocationQuery(e.lngLat));
 
-          // fit bounds
-          const coords = collectCoords(fc);
-          if (coords.length > 0) {
-            const bounds = new maplibregl.LngLatBounds();
-            coords.forEach(([lng, lat]) => bounds.extend([lng, lat]));
-            map.fitBounds(bounds as maplibregl.LngLatBoundsLike, { padding: 40, duration: 500 });
-          }
-        }
+        let pressTimer: ReturnType<typeof setTimeout> | null = null;
+        const cancelPress = () => {
+          if (pressTimer) clearTimeout(pressTimer);
+          pressTimer = null;
+        };
+        map.on("touchstart", (e) => {
+          cancelPress();
+          if (e.points.length !== 1) return;
+          pressTimer = setTimeout(() => openLocationQuery(e.lngLat), 600);
+        });
+        map.on("touchend", cancelPress);
+        map.on("touchcancel", cancelPress);
+        map.on("touchmove", cancelPress);
 
-        window.addEventListener("nominatim-tool-complete", markNominatimResults as any);
-        window.addEventListener("fsq-tool-complete", markFSQResults as any);
+        // sources can only be added once the style has loaded
+        map.once("load", () => {
+          stopQueueing();
+          Object.keys(TOOL_EVENTS).forEach((name) => window.addEventListener(name, markToolResults));
+          for (const e of early.splice(0)) markToolResults(e);
+        });
 
         // 4) cleanup when component unmounts
         const cleanup = () => {
-          window.removeEventListener("nominatim-tool-complete", markNominatimResults as any);
-          window.removeEventListener("fsq-tool-complete", markFSQResults as any);
+          Object.keys(TOOL_EVENTS).forEach((name) => window.removeEventListener(name, markToolResults));
           if (mapRef.current) {
             mapRef.current.remove();
             mapRef.current = null;
@@ -203,6 +236,7 @@ export default function MapCreator() {
 
     return () => {
       disposed = true;
+      stopQueueing();
       ctrl.abort();                               // cancel fetch if in-flight
       if (mapRef.current) {
         mapRef.current.remove();
@@ -211,8 +245,442 @@ export default function MapCreator() {
     };
   }, []);
 
+  // let the chat know which layers are on the map, so the chatbot can refer to previous results
+  useEffect(() => {
+    const summary: MapLayerSummary[] = layers.map(({ id, name, kind, visible, featureCount, upload }) => ({ id, name, kind, visible, featureCount, upload }));
+    window.dispatchEvent(new CustomEvent("map-layers-changed", { detail: summary }));
+  }, [layers]);
+
+  // layer panel actions
+  const toggleLayer = (id: string) => {
+    const layer = layers.find((l) => l.id === id);
+    if (!layer || !mapRef.current) return;
+    setResultLayerVisibility(mapRef.current, id, !layer.visible, layerMarkers.current);
+    setLayers((prev) => prev.map((l) => (l.id === id ? { ...l, visible: !l.visible } : l)));
+  };
+  const renameLayer = (id: string, name: string) => {
+    setLayers((prev) => prev.map((l) => (l.id === id ? { ...l, name } : l)));
+  };
+  const zoomToLayer = (id: string) => {
+    const entry = layerData.current.get(id);
+    if (entry && mapRef.current) fitToFeatures(mapRef.current, entry.fc);
+  };
+  const removeLayer = (id: string) => {
+    if (mapRef.current) removeResultLayer(mapRef.current, id, layerMarkers.current);
+    layerData.current.delete(id);
+    setLayers((prev) => prev.filter((l) => l.id !== id));
+  };
+  // one layer as is, or all visible layers merged with each feature tagged by its layer name
+  const exportLayer = (id: string, format: ExportFormat) => {
+    const layer = layers.find((l) => l.id === id);
+    const entry = layerData.current.get(id);
+    if (layer && entry) {
+      downloadExport(entry.fc, format, layer.name);
+      return;
+    }
+    const features = layers
+        .filter((l) => l.visible)
+        .flatMap((l) => (layerData.current.get(l.id)?.fc.features ?? []).map((f) => ({ ...f, properties: { ...f.properties, layer: l.name } })));
+    if (features.length) downloadExport({ type: "FeatureCollection", features }, format, "mapchat-map");
+  };
+
+  // the chatbot's exportResults tool asks for a download of a layer by name (or "all")
+  useEffect(() => {
+    const onExport = (e: Event) => {
+      const { layer, format } = (e as CustomEvent<{ layer: string; format: ExportFormat }>).detail;
+      const match = layers.find((l) => l.name.toLowerCase() === layer.trim().toLowerCase());
+      exportLayer(match?.id ?? "all", format);
+    };
+    window.addEventListener("map-export", onExport);
+    return () => window.removeEventListener("map-export", onExport);
+  });
+
+  // parses dropped/picked files and draws each one as an "upload" layer; bad rows are reported, not drawn
+  const importFiles = async (files: FileList | File[]) => {
+    const reports: ImportReport[] = [];
+    for (const file of Array.from(files)) {
+      const report: ImportReport = { file: file.name, imported: 0, errors: [] };
+      reports.push(report);
+      try {
+        if (file.size > MAX_IMPORT_BYTES) throw new Error(`File is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`);
+        const result = parseImportFile(file.name, await file.text());
+        report.imported = result.data.features.length;
+        report.errors = result.errors;
+        if (!report.imported) continue;
+        const detail: ToolLayerDetail = {
+          id: `upload-${crypto.randomUUID()}`,
+          name: file.name,
+          data: result.data,
+          upload: summarizeImport(result),
+        };
+        window.dispatchEvent(new CustomEvent("upload-layer-complete", { detail }));
+      } catch (err: any) {
+        report.errors = [err?.message ?? String(err)];
+      }
+    }
+    setImportReports((prev) => [...reports, ...prev].slice(0, 5));
+  };
+
+  return (
+      <div
+          className="map-container"
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes("Files")) return;
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={(e) => {
+            if (e.currentTarget === e.target || !e.currentTarget.contains(e.relatedTarget as Node)) setDragging(false);
+          }}
+          onDrop={(e) => {
+            if (!e.dataTransfer.files.length) return;
+            e.preventDefault();
+            setDragging(false);
+            void importFiles(e.dataTransfer.files);
+          }}
+      >
+        <div ref={containerRef} className="map" />
+        <SearchBox />
+        <MapLegend layers={layers} />
+        {dragging && <div className="drop-overlay">Drop {IMPORT_EXTENSIONS.join(", ")} files to add them to the map</div>}
+        {importReports.length > 0 && (
+            <div className="import-reports">
+              {importReports.map((r, i) => (
+                  <div key={i} className={r.errors.length ? "has-errors" : ""}>
+                    <strong>{r.file}</strong>: {r.imported} features imported
+                    {r.errors.length > 0 && `, ${r.errors.length} skipped`}
+                    {r.errors.length > 0 && (
+                        <ul>
+                          {r.errors.slice(0, 5).map((err, j) => <li key={j}>{err}</li>)}
+                          {r.errors.length > 5 && <li>...and {r.errors.length - 5} more</li>}
+                        </ul>
+                    )}
+                  </div>
+              ))}
+              <button className="popup-action" onClick={() => setImportReports([])}>Dismiss</button>
+            </div>
+        )}
+        <LayerPanel
+            layers={layers}
+            onToggle={toggleLayer}
+            onRename={renameLayer}
+            onZoom={zoomToLayer}
+            onRemove={removeLayer}
+            onExport={exportLayer}
+            onImport={importFiles}
+        />
+      </div>
+  );
+}
+
+// ids of the style layers drawn for a result layer
+function styleLayerIds(id: string): string[] {
+  const sid = `result-${id}`;
+  return [`${sid}-fill`, `${sid}-casing`, `${sid}-line`, `${sid}-point`, `${sid}-clusters`, `${sid}-cluster-count`, `${sid}-poi-ring`, `${sid}-poi`];
+}
+
+// draws (or redraws) a result layer: polygons, lines and points in the layer colour (a colour per place
+// for comparisons), Foursquare recommendations as clustered category icons, routes as a thick line with green/red endpoints
+function drawResultLayer(
+    map: MaplibreMap,
+    layer: Pick<ResultLayer, "id" | "kind" | "color">,
+    fc: FeatureCollection,
+    markers: Map<string, maplibregl.Marker[]>,
+) {
+  const sourceId = `result-${layer.id}`;
+  const poiSourceId = `${sourceId}-poi`;
+  const [fillId, casingId, lineId, pointId, clustersId, clusterCountId, poiRingId, poiId] = styleLayerIds(layer.id);
+  // a redrawn layer keeps the visibility the user gave it
+  const visible = !map.getLayer(lineId) || map.getLayoutProperty(lineId, "visibility") !== "none";
+  const visibility = visible ? "visible" : "none";
+  // comparison results are coloured per place with groupColor(group_index)
+  const color: string | maplibregl.ExpressionSpecification = layer.kind === "compare"
+      ? ["case", ["has", "group_index"],
+        ["to-color", ["at", ["%", ["to-number", ["get", "group_index"]], LAYER_COLORS.length], ["literal", LAYER_COLORS]]],
+        layer.color]
+      : layer.color;
+
+  // recommendations go to their own clustered source, with the category group and the ring colour (the layer's,
+  // or the place's in a comparison) worked out here; poi_index points back to the full feature for the popup
+  const poi: FeatureCollection = {
+    type: "FeatureCollection",
+    features: fc.features.flatMap((f, i) => {
+      const p = f.properties;
+      if (p?.source !== "foursquare" || f.geometry?.type !== "Point") return [];
+      const ring = typeof p.group_index === "number" ? groupColor(p.group_index) : layer.color;
+      return [{ ...f, properties: { name: p.name, poi_index: i, poi_group: categoryGroup(p.categories).id, ring_color: ring } }];
+    }),
+  };
+
+  if (map.getSource(sourceId)) {
+    (map.getSource(sourceId) as maplibregl.GeoJSONSource).setData(fc);
+    (map.getSource(poiSourceId) as maplibregl.GeoJSONSource).setData(poi);
+  } else {
+    map.addSource(sourceId, { type: "geojson", data: fc });
+
+    map.addLayer({
+      id: fillId,
+      type: "fill",
+      source: sourceId,
+      filter: ["match", ["geometry-type"], ["Polygon", "MultiPolygon"], true, false],
+      layout: { visibility },
+      paint: { "fill-color": color, "fill-opacity": 0.2 },
+    });
+    if (layer.kind === "route") {
+      map.addLayer({
+        id: casingId,
+        type: "line",
+        source: sourceId,
+        filter: ["match", ["geometry-type"], ["LineString", "MultiLineString"], true, false],
+        layout: { visibility, "line-cap": "round", "line-join": "round" },
+        paint: { "line-color": "#1e3a8a", "line-width": 8 },
+      });
+    }
+    map.addLayer({
+      id: lineId,
+      type: "line",
+      source: sourceId,
+      layout: { visibility, "line-cap": "round", "line-join": "round" },
+      paint: { "line-color": color, "line-width": layer.kind === "route" ? 5 : layer.kind === "itinerary" ? 4 : 2 },
+    });
+    map.addLayer({
+      id: pointId,
+      type: "circle",
+      source: sourceId,
+      // recommendations, itinerary stops and candidates of an ambiguous name are drawn below
+      filter: ["all", ["==", ["geometry-type"], "Point"], ["!=", ["get", "source"], "foursquare"], ["!=", ["get", "source"], "itinerary"], ["!=", ["get", "category"], "candidate"]],
+      layout: { visibility },
+      paint: {
+        "circle-radius": layer.kind === "route" ? 6 : 4,
+        "circle-color": ["match", ["get", "category"], "route-origin", "#22c55e", "route-destination", "#ef4444", color],
+        "circle-stroke-width": layer.kind === "route" ? 2 : 0,
+        "circle-stroke-color": "#ffffff",
+      },
+    });
+
+    map.addSource(poiSourceId, { type: "geojson", data: poi, cluster: true, clusterRadius: 40, clusterMaxZoom: 16 });
+    map.addLayer({
+      id: clustersId,
+      type: "circle",
+      source: poiSourceId,
+      filter: ["has", "point_count"],
+      layout: { visibility },
+      paint: {
+        "circle-color": layer.color,
+        "circle-opacity": 0.85,
+        "circle-radius": ["step", ["get", "point_count"], 14, 10, 18, 50, 24],
+        "circle-stroke-width": 2,
+        "circle-stroke-color": "#ffffff",
+      },
+    });
+    map.addLayer({
+      id: clusterCountId,
+      type: "symbol",
+      source: poiSourceId,
+      filter: ["has", "point_count"],
+      layout: {
+        visibility,
+        "text-field": ["get", "point_count_abbreviated"],
+        "text-font": ["Noto Sans Regular"],
+        "text-size": 12,
+        "text-allow-overlap": true,
+      },
+      paint: { "text-color": "#ffffff" },
+    });
+    map.addLayer({
+      id: poiRingId,
+      type: "circle",
+      source: poiSourceId,
+      filter: ["!", ["has", "point_count"]],
+      layout: { visibility },
+      paint: { "circle-radius": 14, "circle-color": ["get", "ring_color"] },
+    });
+    map.addLayer({
+      id: poiId,
+      type: "symbol",
+      source: poiSourceId,
+      filter: ["!", ["has", "point_count"]],
+      layout: {
+        visibility,
+        "icon-image": ["concat", "poi-", ["get", "poi_group"]],
+        "icon-allow-overlap": true,
+      },
+    });
+  }
+
+  // remove the previous markers of this layer
+  for (const m of markers.get(layer.id) ?? []) m.remove();
+  const layerMarkers: maplibregl.Marker[] = [];
+  // itinerary stops are numbered in visiting order (the start is 0, shown as "S")
+  for (const f of fc.features) {
+    if (f.properties?.category !== "itinerary-stop" || f.geometry?.type !== "Point") continue;
+    const p = f.properties;
+    const el = document.createElement("div");
+    el.className = "itinerary-marker";
+    el.style.background = layer.color;
+    el.textContent = p.stop === 0 ? "S" : String(p.stop);
+    const times = [p.arrival && `arrive ${p.arrival}`, p.departure && p.stop !== 0 && `leave ${p.departure}`].filter(Boolean).join(", ");
+    const popup = new maplibregl.Popup().setHTML(
+        `<strong>${p.stop === 0 ? "Start" : `Stop ${p.stop}`}: ${escapeHTML(String(p.name ?? ""))}</strong>${times ? `<p>${times}</p>` : ""}`);
+    const marker = new maplibregl.Marker({ element: el })
+        .setLngLat((f.geometry as any).coordinates)
+        .setPopup(popup)
+        .addTo(map);
+    if (!visible) marker.getElement().style.display = "none";
+    layerMarkers.push(marker);
+  }
+  // candidates of an ambiguous place name are numbered like the chips in the chat, and can be picked here too
+  for (const f of fc.features) {
+    if (f.properties?.category !== "candidate" || f.geometry?.type !== "Point") continue;
+    const p = f.properties;
+    const el = document.createElement("div");
+    el.className = "candidate-marker";
+    el.style.background = layer.color;
+    el.textContent = String(p.candidate);
+    const content = document.createElement("div");
+    content.innerHTML = `<strong>${p.candidate}. ${escapeHTML(String(p.name ?? ""))}</strong>`;
+    const choose = document.createElement("button");
+    choose.className = "popup-action";
+    choose.textContent = "This one";
+    const popup = new maplibregl.Popup({ offset: 14 }).setDOMContent(content);
+    choose.onclick = () => {
+      const detail: CandidateChoiceDetail = { id: layer.id, index: p.candidate - 1 };
+      window.dispatchEvent(new CustomEvent("map-candidate-chosen", { detail }));
+      popup.remove();
+    };
+    content.appendChild(choose);
+    const marker = new maplibregl.Marker({ element: el })
+        .setLngLat((f.geometry as any).coordinates)
+        .setPopup(popup)
+        .addTo(map);
+    if (!visible) marker.getElement().style.display = "none";
+    layerMarkers.push(marker);
+  }
+  markers.set(layer.id, layerMarkers);
+}
 
-  return <div className="map-container"><div ref={containerRef} className="map" /></div>;
+function setResultLayerVisibility(map: MaplibreMap, id: string, visible: boolean, markers: Map<string, maplibregl.Marker[]>) {
+  for (const styleId of styleLayerIds(id)) {
+    if (map.getLayer(styleId)) map.setLayoutProperty(styleId, "visibility", visible ? "visible" : "none");
+  }
+  for (const m of markers.get(id) ?? []) m.getElement().style.display = visible ? "" : "none";
+}
+
+function removeResultLayer(map: MaplibreMap, id: string, markers: Map<string, maplibregl.Marker[]>) {
+  for (const styleId of styleLayerIds(id)) {
+    if (map.getLayer(styleId)) map.removeLayer(styleId);
+  }
+  for (const sourceId of [`result-${id}`, `result-${id}-poi`]) {
+    if (map.getSource(sourceId)) map.removeSource(sourceId);
+  }
+  for (const m of markers.get(id) ?? []) m.remove();
+  markers.delete(id);
+}
+
+// converts a FeatureCollection through /api/export and saves the returned file
+async function downloadExport(fc: FeatureCollection, format: ExportFormat, name: string) {
+  try {
+    const res = await fetch("/api/export", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ data: fc, format, name }),
+    });
+    if (!res.ok) throw new Error(`Export failed: ${res.status} ${res.statusText}`);
+    const encoded = res.headers.get("Content-Disposition")?.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+    const filename = encoded ? decodeURIComponent(encoded) : `mapchat.${format}`;
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  } catch (err) {
+    console.error(err);
+  }
+}
+
+// fit the map to all coordinates of a FeatureCollection
+function fitToFeatures(map: MaplibreMap, fc: FeatureCollection) {
+  const coords = collectCoords(fc);
+  if (coords.length > 0) {
+    const bounds = new maplibregl.LngLatBounds();
+    coords.forEach(([lng, lat]) => bounds.extend([lng, lat]));
+    map.fitBounds(bounds as maplibregl.LngLatBoundsLike, { padding: 40, duration: 500 });
+  }
+}
+
+// popup of a Foursquare recommendation: its details plus actions that start a chat turn about this place
+function fsqPopupContent(p: Record<string, any>, [lng, lat]: [number, number]): HTMLElement {
+  const content = document.createElement("div");
+  content.innerHTML = fsqPopupHTML(p);
+  if (!p.fsq_id) return content;
+
+  const actions = document.createElement("div");
+  actions.className = "popup-actions";
+  const buttons: [PlaceActionDetail["action"], string][] = [
+    ["ask", "Ask about this"],
+    ["directions", "Directions from here"],
+    ["similar", "Find similar nearby"],
+  ];
+  for (const [action, label] of buttons) {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.className = "popup-action";
+    button.onclick = () => {
+      const detail: PlaceActionDetail = {
+        action,
+        fsqId: p.fsq_id,
+        name: p.name,
+        lat: Number(lat.toFixed(6)),
+        lng: Number(lng.toFixed(6)),
+        categories: p.categories ?? [],
+      };
+      window.dispatchEvent(new CustomEvent("map-place-action", { detail }));
+    };
+    actions.appendChild(button);
+  }
+  content.appendChild(actions);
+  return content;
+}
+
+// build the popup content of a Foursquare recommendation; detail rows are only shown when present
+function fsqPopupHTML(p: Record<string, any>): string {
+  const text = (v: unknown) => escapeHTML(String(v ?? ""));
+  const rows: string[] = [
+    p.address ? text(p.address) : "-",
+    p.distance ? `${text(p.distance)}m from location` : "-",
+    `Tags: ${text((p.categories ?? []).join(", ")) || "-"}`,
+  ];
+  if (typeof p.rating === "number") rows.push(`Rating: ${p.rating.toFixed(1)}/10${p.total_ratings ? ` (${text(p.total_ratings)} ratings)` : ""}`);
+  if (typeof p.price === "number") rows.push(`Price: ${"$".repeat(p.price)}`);
+  if (p.hours) rows.push(`Hours: ${text(p.hours)}${typeof p.open_now === "boolean" ? (p.open_now ? " (open now)" : " (closed now)") : ""}`);
+  if (typeof p.popularity === "number") rows.push(`Popularity: ${Math.round(p.popularity * 100)}%`);
+  if (p.tel) rows.push(`Phone: <a href="tel:${text(p.tel)}">${text(p.tel)}</a>`);
+  const website = webURL(p.website);
+  if (website) rows.push(`<a href="${escapeHTML(website)}" target="_blank" rel="noopener noreferrer">Website</a>`);
+  // fetched by the placeDetails tool only
+  const photoURL = webURL(p.photos?.[0]);
+  const photo = photoURL ? `<img class="popup-photo" src="${escapeHTML(photoURL)}" alt="">` : "";
+  const tips = (Array.isArray(p.tips) ? p.tips : []).slice(0, 2).map((t: unknown) => `<em>“${text(t)}”</em>`);
+  return `
+                  ${photo}
+                  <strong>${text(p.name)}</strong>
+                  <p>${[...rows, ...tips].join("<br>")}</p>`;
+}
+
+// place data comes from Foursquare and its users, so it must not be inserted as HTML
+function escapeHTML(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+// the URL when it is a web page (http or https); anything else (e.g. "javascript:") is not linked
+function webURL(v: unknown): string | null {
+  try {
+    const url = new URL(String(v));
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
 }
 
 // extract all coordinates from a FeatureCollection
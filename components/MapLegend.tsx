@@ -0,0 +1,38 @@
+"use client";
+import React, { useState } from "react";
+import { ChevronDownIcon, ChevronUpIcon } from "lucide-react";
+import { CATEGORY_GROUPS } from "./categories";
+import type { ResultLayer } from "./layers";
+
+// legend of the marker colours and icons, counting the recommendations on visible layers per category group
+export default function MapLegend({ layers }: { layers: ResultLayer[] }) {
+  const [collapsed, setCollapsed] = useState(false);
+
+  const counts: Record<string, number> = {};
+  for (const layer of layers) {
+    if (!layer.visible) continue;
+    for (const [id, n] of Object.entries(layer.categories ?? {})) counts[id] = (counts[id] ?? 0) + n;
+  }
+  const groups = CATEGORY_GROUPS.filter((g) => counts[g.id]);
+  if (!groups.length) return null;
+
+  return (
+      <div className="map-legend">
+        <button className="map-legend-header noselect" onClick={() => setCollapsed((c) => !c)}>
+          <span>Legend</span>
+          {collapsed ? <ChevronDownIcon size={14} /> : <ChevronUpIcon size={14} />}
+        </button>
+        {!collapsed && (
+            <ul>
+              {groups.map((g) => (
+                  <li key={g.id}>
+                    <span className="map-legend-icon" style={{ background: g.color }}>{g.icon}</span>
+                    <span>{g.label}</span>
+                    <small>{counts[g.id]}</small>
+                  </li>
+              ))}
+            </ul>
+        )}
+      </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { SearchIcon, XIcon } from "lucide-react";
+import type { Suggestion } from "../lib/services/suggest";
+import type { MapViewport } from "../lib/layers";
+import type { ToolLayerDetail } from "./layers";
+
+const DEBOUNCE_MS = 300;
+const MIN_CHARS = 3;
+
+// search box on the map: suggestions while typing, and the picked place is drawn like a chat search result
+export default function SearchBox() {
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  // index of the highlighted suggestion, -1 for none
+  const [active, setActive] = useState(-1);
+  // suggestions are biased towards the middle of the map
+  const center = useRef<MapViewport["center"] | null>(null);
+  // label put into the box by picking a suggestion, which needs no new lookup
+  const picked = useRef<string | null>(null);
+
+  useEffect(() => {
+    const onViewport = (e: Event) => {
+      center.current = (e as CustomEvent<MapViewport>).detail.center;
+    };
+    window.addEventListener("map-viewport-changed", onViewport);
+    return () => window.removeEventListener("map-viewport-changed", onViewport);
+  }, []);
+
+  // debounced lookup; a newer query aborts the previous request
+  useEffect(() => {
+    const q = query.trim();
+    if (query === picked.current) return;
+    if (q.length < MIN_CHARS) {
+      setSuggestions([]);
+      setErrors([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const ctrl = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q });
+      if (center.current) {
+        params.set("lat", center.current.lat.toFixed(5));
+        params.set("lng", center.current.lng.toFixed(5));
+      }
+      try {
+        const res = await fetch(`/api/search?${params}`, { signal: ctrl.signal });
+        const body = await res.json();
+        // rate limits and sign-in problems come with a hint on what to do
+        if (!res.ok) throw new Error([body?.error ?? `Search failed: ${res.status}`, body?.hint].filter(Boolean).join(". "));
+        setSuggestions(body.suggestions ?? []);
+        setErrors(body.errors ?? []);
+        setActive(-1);
+      } catch (err: any) {
+        if (err?.name === "AbortError") return;
+        setSuggestions([]);
+        setErrors([err?.message ?? String(err)]);
+      }
+      setLoading(false);
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      ctrl.abort();
+    };
+  }, [query]);
+
+  const pick = (s: Suggestion) => {
+    const detail: ToolLayerDetail = {
+      id: `search-${s.id}`,
+      name: s.label,
+      data: { type: "FeatureCollection", features: [s.feature] },
+    };
+    window.dispatchEvent(new CustomEvent("nominatim-tool-complete", { detail }));
+    picked.current = s.label;
+    setQuery(s.label);
+    setOpen(false);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (!suggestions.length) return;
+      e.preventDefault();
+      setOpen(true);
+      // cycles through the suggestions and back to the typed text (-1)
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const n = suggestions.length + 1;
+      setActive((i) => ((i + 1 + step + n) % n) - 1);
+    } else if (e.key === "Enter") {
+      const s = suggestions[active] ?? suggestions[0];
+      if (!s) return;
+      e.preventDefault();
+      pick(s);
+    } else if (e.key === "Escape") {
+      if (open && suggestions.length) setOpen(false);
+      else setQuery("");
+    }
+  };
+
+  const showList = open && query.trim().length >= MIN_CHARS && (suggestions.length > 0 || errors.length > 0 || !loading);
+
+  return (
+      <div className="search-box">
+        <div className="search-box-input">
+          <SearchIcon size={14} />
+          <input
+              type="text"
+              role="combobox"
+              aria-expanded={showList}
+              aria-controls="search-box-list"
+              aria-autocomplete="list"
+              aria-activedescendant={active >= 0 ? `search-box-option-${active}` : undefined}
+              placeholder="Search places"
+              value={query}
+              onChange={(e) => {
+                picked.current = null;
+                setQuery(e.target.value);
+                setOpen(true);
+              }}
+              onFocus={() => setOpen(true)}
+              onBlur={() => setOpen(false)}
+              onKeyDown={onKeyDown}
+          />
+          {loading && <span className="search-box-status">…</span>}
+          {query && (
+              <button title="Clear" onMouseDown={(e) => e.preventDefault()} onClick={() => setQuery("")}>
+                <XIcon size={14} />
+              </button>
+          )}
+        </div>
+        {showList && (
+            <ul id="search-box-list" role="listbox">
+              {suggestions.map((s, i) => (
+                  <li
+                      key={s.id}
+                      id={`search-box-option-${i}`}
+                      role="option"
+                      aria-selected={i === active}
+                      className={i === active ? "active" : ""}
+                      // mousedown fires before the input's blur would close the list
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        pick(s);
+                      }}
+                      onMouseEnter={() => setActive(i)}
+                  >
+                    <span>{s.label}</span>
+                    {s.detail && <small>{s.detail}</small>}
+                  </li>
+              ))}
+              {!suggestions.length && !loading && <li className="search-box-empty">No places found</li>}
+              {errors.map((err) => <li key={err} className="search-box-error">{err}</li>)}
+            </ul>
+        )}
+      </div>
+  );
+}
@@ -0,0 +1,68 @@
+// components/categories.ts
+// Groups of Foursquare categories that get their own marker colour and icon on the map and in the legend.
+// Foursquare has hundreds of categories; a place belongs to the first group matching one of its category names.
+import type { Feature } from "geojson";
+
+export type CategoryGroup = {
+  id: string;
+  label: string;
+  color: string;
+  icon: string;            // emoji drawn on the marker
+  match?: RegExp;          // the last group ("other") catches everything else
+};
+
+// order matters: "Coffee Shop" is a café before it is a shop, "Wine Bar" a bar before it is food
+export const CATEGORY_GROUPS: CategoryGroup[] = [
+  { id: "cafe", label: "Cafés & desserts", color: "#b45309", icon: "☕", match: /coffee|caf[eé]|tea ?room|bubble tea|bakery|dessert|ice cream|donut|juice|pastry/i },
+  { id: "bar", label: "Bars & nightlife", color: "#7c3aed", icon: "🍸", match: /\bbar\b|pub|brewery|night ?club|lounge|beer|wine|cocktail|izakaya|nightlife|speakeasy/i },
+  { id: "food", label: "Restaurants", color: "#dc2626", icon: "🍴", match: /restaurant|food|dining|ramen|sushi|pizz|burger|noodle|diner|bistro|grill|steak|bbq|barbecue|kitchen|eatery|joint|buffet/i },
+  { id: "hotel", label: "Hotels", color: "#2563eb", icon: "🛏", match: /hotel|hostel|motel|\binn\b|resort|lodging|bed and breakfast|guest ?house|accommodation/i },
+  { id: "shop", label: "Shops", color: "#db2777", icon: "🛍", match: /store|shop|mall|market|boutique|retail|outlet|grocery|supermarket/i },
+  { id: "sight", label: "Sights & culture", color: "#0d9488", icon: "🏛", match: /museum|gallery|monument|landmark|historic|palace|temple|shrine|church|cathedral|castle|theat(er|re)|\barts?\b|attraction|memorial|library/i },
+  { id: "outdoors", label: "Parks & outdoors", color: "#16a34a", icon: "🌳", match: /\bpark\b|garden|beach|trail|nature|mountain|lake|river|plaza|scenic|zoo|forest|playground/i },
+  { id: "transport", label: "Transport", color: "#475569", icon: "🚉", match: /station|airport|bus|metro|subway|train|transport|parking|ferry|terminal/i },
+  { id: "other", label: "Other places", color: "#64748b", icon: "📍" },
+];
+
+// the group of a place from its category names (the "categories" property of Foursquare features)
+export function categoryGroup(categories: unknown): CategoryGroup {
+  const names = Array.isArray(categories) ? categories.map(String) : [];
+  // the first category is the primary one, so it decides before any of the others
+  for (const name of names) {
+    const group = CATEGORY_GROUPS.find((g) => g.match?.test(name));
+    if (group) return group;
+  }
+  return CATEGORY_GROUPS[CATEGORY_GROUPS.length - 1];
+}
+
+// marker image of a group: the icon on a disc in the group colour, drawn at 2x for sharp rendering
+export function categoryIcon(group: CategoryGroup): ImageData | null {
+  const size = 48;
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, size / 2 - 3, 0, Math.PI * 2);
+  ctx.fillStyle = group.color;
+  ctx.fill();
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = "#ffffff";
+  ctx.stroke();
+  ctx.font = "24px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(group.icon, size / 2, size / 2 + 1);
+  return ctx.getImageData(0, 0, size, size);
+}
+
+// number of Foursquare recommendations per group id in a layer, for the legend
+export function countCategories(features: Feature[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const f of features) {
+    if (f.properties?.source !== "foursquare" || f.geometry?.type !== "Point") continue;
+    const { id } = categoryGroup(f.properties.categories);
+    counts[id] = (counts[id] ?? 0) + 1;
+  }
+  return counts;
+}
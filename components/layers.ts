@@ -0,0 +1,54 @@
+// components/layers.ts
+// Shared shapes of the result layers exchanged between Chat and the map through window events
+// (the map view, user location and layer names the server uses too are in lib/layers.ts).
+import type { FeatureCollection } from "geojson";
+import type { ImportSummary } from "../lib/import";
+
+// which tool produced a layer (or "upload" for the user's own files); decides how it is drawn
+export type LayerKind = "nominatim" | "fsq" | "route" | "analysis" | "compare" | "itinerary" | "upload";
+
+// detail of the "<kind>-tool-complete" events
+export type ToolLayerDetail = {
+  id: string;              // tool call id, so replaying the same result replaces instead of duplicating
+  name: string;
+  data: FeatureCollection;
+  upload?: ImportSummary;  // only for imported files
+  append?: boolean;        // a further page of results: add the features to layer `id` instead of replacing it
+};
+
+export type ResultLayer = {
+  id: string;
+  name: string;
+  kind: LayerKind;
+  color: string;
+  visible: boolean;
+  featureCount: number;
+  upload?: ImportSummary;
+  categories?: Record<string, number>;   // recommendations per category group (see categories.ts), for the legend
+};
+
+// detail of the "map-layers-changed" event, also sent along with chat messages
+export type MapLayerSummary = Pick<ResultLayer, "id" | "name" | "kind" | "visible" | "featureCount" | "upload">;
+
+// detail of the "map-place-action" event, fired by the buttons in a Foursquare marker popup
+export type PlaceActionDetail = {
+  action: "ask" | "directions" | "similar";
+  fsqId: string;
+  name: string;
+  lat: number;
+  lng: number;
+  categories: string[];
+};
+
+// detail of the "map-candidate-chosen" event, fired by the numbered pins of an ambiguous place name
+export type CandidateChoiceDetail = {
+  id: string;        // the layer, i.e. the tool call that asked
+  index: number;     // the candidate, from 0
+};
+
+export const LAYER_COLORS = ["#3b82f6", "#ef4444", "#22c55e", "#f59e0b", "#a855f7", "#14b8a6", "#ec4899", "#84cc16"];
+
+// colour of one place's group in a comparison, the same on the map and in the chat table
+export function groupColor(groupIndex: number): string {
+  return LAYER_COLORS[groupIndex % LAYER_COLORS.length];
+}
@@ -0,0 +1,92 @@
+// lib/auth/cookie.ts
+// AUTH_STRATEGY=cookie: the browser signs in once with an API token (POST /api/auth) and gets a signed,
+// HttpOnly session cookie; bearer tokens keep working for API clients.
+// The cookie holds the user id and expiry, signed with AUTH_SECRET, so nothing has to be stored server-side.
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { AuthStrategy, AuthUser } from "./index";
+import { bearerToken, userForToken, type TokenTable } from "./tokens";
+
+export const SESSION_COOKIE = "mapchat_session";
+const DAY = 24 * 60 * 60 * 1000;
+
+export type CookieSigner = {
+    sign(user: string, maxAgeMs: number): string;
+    verify(value: string): string | undefined;      // the user id, when the signature is valid and not expired
+};
+
+export function createCookieSigner(secret: string): CookieSigner {
+    const mac = (payload: string) => createHmac("sha256", secret).update(payload).digest("base64url");
+    return {
+        sign(user, maxAgeMs) {
+            const payload = `${Buffer.from(user).toString("base64url")}.${Date.now() + maxAgeMs}`;
+            return `${payload}.${mac(payload)}`;
+        },
+        verify(value) {
+            const [user, expires, sig] = value.split(".");
+            if (!user || !expires || !sig) return;
+            const expected = Buffer.from(mac(`${user}.${expires}`));
+            const given = Buffer.from(sig);
+            if (given.length !== expected.length || !timingSafeEqual(given, expected)) return;
+            if (!(Number(expires) > Date.now())) return;
+            return Buffer.from(user, "base64url").toString();
+        },
+    };
+}
+
+export function sessionMaxAgeMs(): number {
+    const days = Number(process.env.AUTH_SESSION_DAYS ?? 30);
+    return (Number.isFinite(days) && days > 0 ? days : 30) * DAY;
+}
+
+// without AUTH_SECRET, sessions only last as long as this server process
+export function sessionSecret(): string {
+    const secret = process.env.AUTH_SECRET;
+    if (secret && secret.length >= 32) return secret;
+    console.warn("AUTH_SECRET is missing or shorter than 32 characters; sign-ins end when the server restarts");
+    return randomBytes(32).toString("hex");
+}
+
+// a cookie value that is not valid percent-encoding counts as no cookie (anyone can send one)
+function readCookie(req: Request, name: string): string | undefined {
+    for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+        const i = part.indexOf("=");
+        if (i <= 0 || part.slice(0, i).trim() !== name) continue;
+        try {
+            return decodeURIComponent(part.slice(i + 1).trim());
+        } catch {
+            return;
+        }
+    }
+}
+
+// Set-Cookie header value for a sign-in (or, with an empty value, a sign-out)
+export function sessionCookieHeader(value: string, maxAgeMs: number, secure: boolean): string {
+    return [
+        `${SESSION_COOKIE}=${encodeURIComponent(value)}`,
+        "Path=/",
+        "HttpOnly",
+        "SameSite=Lax",
+        `Max-Age=${Math.floor(maxAgeMs / 1000)}`,
+        ...(secure ? ["Secure"] : []),
+    ].join("; ");
+}
+
+// the sign-in route needs the token table and signer to issue cookies
+export type CookieAuthStrategy = AuthStrategy & { signer: CookieSigner; table: TokenTable };
+
+export function createCookieStrategy(table: TokenTable, signer: CookieSigner): CookieAuthStrategy {
+    return {
+        name: "cookie",
+        signer,
+        table,
+        authenticate(req): AuthUser | null {
+            const cookie = readCookie(req, SESSION_COOKIE);
+            const fromCookie = cookie ? signer.verify(cookie) : undefined;
+            if (fromCookie) return { id: fromCookie, via: "cookie" };
+            const token = bearerToken(req);
+            const fromToken = token ? userForToken(table, token) : undefined;
+            return fromToken ? { id: fromToken, via: "token" } : null;
+        },
+    };
+}
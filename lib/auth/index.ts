@@ -0,0 +1,120 @@
+// lib/auth/index.ts
+// Who may use the API routes, and how much. The strategy is chosen per deployment with AUTH_STRATEGY:
+//   none (default)  open to everyone; limits and quotas are counted per client IP
+//   token           "Authorization: Bearer <token>" with a token from AUTH_TOKENS
+//   cookie          a signed session cookie from signing in with such a token (POST /api/auth), or a bearer token
+// Rate limits and daily quotas (see ./limits) apply with every strategy. Failures are answered with
+// 401/429 and a ToolError body, so the chat can show them like any other error.
+// NOTE: Use this ONLY on the server.
+
+import { toolError, type ToolError } from "../services/errors";
+import { consume, record, remaining } from "./limits";
+import { createTokenStrategy, parseTokens } from "./tokens";
+import { createCookieSigner, createCookieStrategy, sessionSecret } from "./cookie";
+
+// ---------- Types ----------
+export type AuthUser = { id: string; via: "anonymous" | "token" | "cookie" };
+
+export interface AuthStrategy {
+    name: string;
+    // the user making the request, or null when they have to sign in
+    authenticate(req: Request): AuthUser | null | Promise<AuthUser | null>;
+}
+
+// what a route may do for an authorized request; `key` identifies the user for quotas
+export type Access =
+    | { ok: true; user: AuthUser; key: string; toolCallsLeft: number }
+    | { ok: false; response: Response };
+
+// what a request counts against besides the per-minute limits
+export type Usage = "request" | "chat" | "tool";
+
+// ---------- Strategy ----------
+let strategy: AuthStrategy | null = null;
+
+export function getAuthStrategy(): AuthStrategy {
+    if (strategy) return strategy;
+    const kind = (process.env.AUTH_STRATEGY ?? "none").toLowerCase();
+    if (kind === "token" || kind === "cookie") {
+        const table = parseTokens(process.env.AUTH_TOKENS);
+        if (!table.length) console.warn(`AUTH_STRATEGY=${kind} without AUTH_TOKENS: nobody can sign in`);
+        strategy = kind === "token" ? createTokenStrategy(table) : createCookieStrategy(table, createCookieSigner(sessionSecret()));
+    } else {
+        if (kind !== "none") console.warn(`AUTH_STRATEGY: unknown strategy "${kind}", the API is open to everyone`);
+        strategy = { name: "none", authenticate: () => ({ id: "anonymous", via: "anonymous" }) };
+    }
+    return strategy;
+}
+
+// Client IP as reported by the reverse proxy in front of the app. Without such a proxy the header
+// can be forged, so per-IP limits only hold behind one.
+export function clientIp(req: Request): string {
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+    return forwarded || req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+// ---------- Responses ----------
+function deny(status: 401 | 429, error: ToolError & { signIn?: boolean }, retryAfterMs?: number): Response {
+    const headers: Record<string, string> = {};
+    if (retryAfterMs !== undefined) headers["Retry-After"] = String(Math.max(1, Math.ceil(retryAfterMs / 1000)));
+    if (status === 401) headers["WWW-Authenticate"] = 'Bearer realm="mapchat"';
+    return Response.json({ ...error, status }, { status, headers });
+}
+
+function waitText(ms: number): string {
+    const s = Math.ceil(ms / 1000);
+    if (s < 60) return `${s} s`;
+    const min = Math.ceil(s / 60);
+    return min < 60 ? `${min} min` : `${Math.ceil(min / 60)} h`;
+}
+
+// ---------- Public API ----------
+
+// Authenticates a request and counts it against the limits (and, for chat turns and tool calls, the
+// daily quotas). Routes return `response` as is when access is denied.
+export async function authorize(req: Request, usage: Usage = "request"): Promise<Access> {
+    const auth = getAuthStrategy();
+    const user = await auth.authenticate(req);
+    if (!user) {
+        const signIn = auth.name === "cookie";
+        return {
+            ok: false,
+            response: deny(401, {
+                ...toolError("unauthorized", "Sign-in required", {
+                    hint: signIn ? "Sign in with your access token." : 'Send an API token as "Authorization: Bearer <token>".',
+                }),
+                signIn,
+            }),
+        };
+    }
+
+    const ip = clientIp(req);
+    const key = user.via === "anonymous" ? `ip:${ip}` : `user:${user.id}`;
+    const rate = consume("ip", ip);
+    const userRate = rate.ok && user.via !== "anonymous" ? consume("user", key) : rate;
+    if (!userRate.ok) {
+        const wait = waitText(userRate.retryAfterMs);
+        return {
+            ok: false,
+            response: deny(429, toolError("rate_limited", "Too many requests", { hint: `Slow down a little and try again in ${wait}.` }), userRate.retryAfterMs),
+        };
+    }
+
+    const quota = usage === "chat" ? consume("chat", key) : usage === "tool" ? consume("tools", key) : { ok: true as const };
+    if (!quota.ok) {
+        const what = usage === "chat" ? "chat messages" : "searches and routes";
+        return {
+            ok: false,
+            response: deny(429, toolError("rate_limited", `Daily limit of ${what} reached`, {
+                retryable: false,
+                hint: `The limit resets at midnight UTC, in ${waitText(quota.retryAfterMs)}.`,
+            }), quota.retryAfterMs),
+        };
+    }
+    return { ok: true, user, key, toolCallsLeft: remaining("tools", key) };
+}
+
+// counts the tool calls the chatbot made during a chat turn
+export function recordToolCalls(key: string, count: number) {
+    record("tools", key, count);
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { consume, record, remaining } from "./limits";
+
+// windows are kept for the whole process, so every test counts for keys of its own
+let n = 0;
+const freshKey = () => `user${++n}`;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const noon = Date.UTC(2026, 9, 19, 12);
+
+describe("per-minute limits", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("allows the configured number of requests per minute", () => {
+        const key = freshKey();
+        for (let i = 0; i < 30; i++) expect(consume("user", key, 1, noon)).toEqual({ ok: true });
+        expect(consume("user", key, 1, noon + 20_000)).toEqual({ ok: false, retryAfterMs: 40_000 });
+        expect(remaining("user", key, noon + 20_000)).toBe(0);
+    });
+
+    it("starts counting again a minute after the first request", () => {
+        const key = freshKey();
+        vi.stubEnv("RATE_LIMIT_IP_PER_MINUTE", "2");
+        consume("ip", key, 1, noon);
+        consume("ip", key, 1, noon + 1000);
+        expect(consume("ip", key, 1, noon + MINUTE - 1).ok).toBe(false);
+        expect(consume("ip", key, 1, noon + MINUTE).ok).toBe(true);
+        expect(remaining("ip", key, noon + MINUTE)).toBe(1);
+    });
+
+    it("counts each limit and key on its own", () => {
+        const [a, b] = [freshKey(), freshKey()];
+        vi.stubEnv("RATE_LIMIT_PER_MINUTE", "1");
+        expect(consume("user", a, 1, noon).ok).toBe(true);
+        expect(consume("user", a, 1, noon).ok).toBe(false);
+        expect(consume("user", b, 1, noon).ok).toBe(true);
+        expect(consume("ip", a, 1, noon).ok).toBe(true);
+    });
+
+    it("is off when set to 0, and uses the default for nonsense", () => {
+        const key = freshKey();
+        vi.stubEnv("RATE_LIMIT_PER_MINUTE", "0");
+        for (let i = 0; i < 100; i++) expect(consume("user", key, 1, noon).ok).toBe(true);
+        expect(remaining("user", key, noon)).toBe(Infinity);
+        vi.stubEnv("RATE_LIMIT_PER_MINUTE", "lots");
+        expect(remaining("user", freshKey(), noon)).toBe(30);
+    });
+});
+
+describe("daily quotas", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("resets at midnight UTC", () => {
+        const key = freshKey();
+        vi.stubEnv("QUOTA_CHAT_TURNS_PER_DAY", "1");
+        expect(consume("chat", key, 1, noon).ok).toBe(true);
+        expect(consume("chat", key, 1, noon + MINUTE)).toEqual({ ok: false, retryAfterMs: DAY / 2 - MINUTE });
+        expect(consume("chat", key, 1, noon + DAY / 2).ok).toBe(true);
+    });
+
+    it("refuses a batch that would go over without counting any of it", () => {
+        const key = freshKey();
+        expect(consume("tools", key, 498, noon).ok).toBe(true);
+        expect(consume("tools", key, 3, noon).ok).toBe(false);
+        expect(remaining("tools", key, noon)).toBe(2);
+    });
+
+    it("records usage that already happened, even past the quota", () => {
+        const key = freshKey();
+        record("tools", key, 499, noon);
+        record("tools", key, 5, noon);
+        record("tools", key, -5, noon);
+        expect(remaining("tools", key, noon)).toBe(0);
+        expect(consume("tools", key, 1, noon).ok).toBe(false);
+        expect(remaining("tools", key, noon + DAY)).toBe(500);
+    });
+});
@@ -0,0 +1,67 @@
+// lib/auth/limits.ts
+// Per-minute rate limits and daily quotas, counted in fixed windows in this server process:
+//   RATE_LIMIT_PER_MINUTE      requests per user (default 30)
+//   RATE_LIMIT_IP_PER_MINUTE   requests per client IP, signed in or not (default 60)
+//   QUOTA_CHAT_TURNS_PER_DAY   chat messages per user (default 200)
+//   QUOTA_TOOL_CALLS_PER_DAY   tool calls per user, by the chatbot or the Retry button (default 500)
+// 0 turns a limit off. Days are UTC days. Anonymous users (AUTH_STRATEGY=none) are counted per IP.
+
+type Window = { count: number; resetAt: number };
+export type LimitCheck = { ok: true } | { ok: false; retryAfterMs: number };
+export type LimitName = "user" | "ip" | "chat" | "tools";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MAX_WINDOWS = 10_000;
+
+const windows = new Map<string, Window>();
+
+function limitFor(name: LimitName): number {
+    const [env, fallback] = {
+        user: ["RATE_LIMIT_PER_MINUTE", 30],
+        ip: ["RATE_LIMIT_IP_PER_MINUTE", 60],
+        chat: ["QUOTA_CHAT_TURNS_PER_DAY", 200],
+        tools: ["QUOTA_TOOL_CALLS_PER_DAY", 500],
+    }[name] as [string, number];
+    const n = Number(process.env[env] ?? fallback);
+    return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+// minute windows start at the first request, quota windows at midnight UTC
+function windowFor(name: LimitName, key: string, now: number): Window {
+    const id = `${name}:${key}`;
+    let w = windows.get(id);
+    if (!w || w.resetAt <= now) {
+        if (windows.size >= MAX_WINDOWS) sweep(now);
+        w = { count: 0, resetAt: name === "chat" || name === "tools" ? (Math.floor(now / DAY) + 1) * DAY : now + MINUTE };
+        windows.set(id, w);
+    }
+    return w;
+}
+
+function sweep(now: number) {
+    for (const [id, w] of windows) if (w.resetAt <= now) windows.delete(id);
+}
+
+// counts `amount` against a limit, unless that would exceed it
+export function consume(name: LimitName, key: string, amount = 1, now = Date.now()): LimitCheck {
+    const limit = limitFor(name);
+    if (limit === 0) return { ok: true };
+    const w = windowFor(name, key, now);
+    if (w.count + amount > limit) return { ok: false, retryAfterMs: w.resetAt - now };
+    w.count += amount;
+    return { ok: true };
+}
+
+// what is left of a limit without counting anything (Infinity when it is off)
+export function remaining(name: LimitName, key: string, now = Date.now()): number {
+    const limit = limitFor(name);
+    if (limit === 0) return Infinity;
+    return Math.max(0, limit - windowFor(name, key, now).count);
+}
+
+// counts usage that already happened (e.g. the tool calls of a chat turn), even past the limit
+export function record(name: LimitName, key: string, amount: number, now = Date.now()) {
+    if (limitFor(name) === 0 || amount <= 0) return;
+    windowFor(name, key, now).count += amount;
+}
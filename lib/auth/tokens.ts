@@ -0,0 +1,47 @@
+// lib/auth/tokens.ts
+// API tokens from AUTH_TOKENS ("alice:token1,bob:token2"; a bare token is its own user) and the bearer strategy.
+
+import { createHash, timingSafeEqual } from "crypto";
+import type { AuthStrategy, AuthUser } from "./index";
+
+export type TokenTable = { user: string; digest: Buffer }[];
+
+const digest = (token: string) => createHash("sha256").update(token).digest();
+
+export function parseTokens(spec: string | undefined): TokenTable {
+    const table: TokenTable = [];
+    for (const entry of (spec ?? "").split(",").map((s) => s.trim()).filter(Boolean)) {
+        const i = entry.indexOf(":");
+        const [user, token] = i > 0 ? [entry.slice(0, i), entry.slice(i + 1)] : [`token-${digest(entry).toString("hex").slice(0, 8)}`, entry];
+        if (token.length < 16) console.warn(`AUTH_TOKENS: the token of "${user}" is shorter than 16 characters`);
+        table.push({ user, digest: digest(token) });
+    }
+    return table;
+}
+
+// the user a token belongs to; compared on digests in constant time, so response times say nothing about tokens
+export function userForToken(table: TokenTable, token: string): string | undefined {
+    const d = digest(token);
+    let found: string | undefined;
+    for (const entry of table) {
+        if (timingSafeEqual(entry.digest, d)) found ??= entry.user;
+    }
+    return found;
+}
+
+export function bearerToken(req: Request): string | undefined {
+    const m = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+    return m?.[1];
+}
+
+// AUTH_STRATEGY=token: every request carries "Authorization: Bearer <token>" (for API clients and proxies)
+export function createTokenStrategy(table: TokenTable): AuthStrategy {
+    return {
+        name: "token",
+        authenticate(req): AuthUser | null {
+            const token = bearerToken(req);
+            const user = token ? userForToken(table, token) : undefined;
+            return user ? { id: user, via: "token" } : null;
+        },
+    };
+}
@@ -0,0 +1,42 @@
+// lib/cache/file.ts
+// File backend: one JSON file per key under a directory, shared by every process on the same disk.
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, writeFile, rename } from "fs/promises";
+import path from "path";
+import type { CacheBackend } from "./index";
+
+export function createFileBackend(dir: string): CacheBackend {
+    let ready: Promise<unknown> | null = null;
+    const fileFor = (key: string) => path.join(dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+
+    return {
+        name: "file",
+        async get(key) {
+            let raw: string;
+            try {
+                raw = await readFile(fileFor(key), "utf8");
+            } catch {
+                return; // not cached
+            }
+            const entry = JSON.parse(raw) as { expires: number; value: string };
+            if (Date.now() > entry.expires) {
+                await rm(fileFor(key), { force: true });
+                return;
+            }
+            return entry.value;
+        },
+        async set(key, value, ttlMs) {
+            ready ??= mkdir(dir, { recursive: true });
+            await ready;
+            // write then rename so concurrent readers never see a half-written file
+            const file = fileFor(key);
+            const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+            await writeFile(tmp, JSON.stringify({ expires: Date.now() + ttlMs, value }), "utf8");
+            await rename(tmp, file);
+        },
+        async delete(key) {
+            await rm(fileFor(key), { force: true });
+        },
+    };
+}
@@ -0,0 +1,119 @@
+// lib/cache/index.ts
+// Shared cache for upstream calls, with a pluggable backend chosen per deployment:
+//   CACHE_BACKEND=memory (default)  in-process LRU, CACHE_MAX_ENTRIES entries (default 500)
+//   CACHE_BACKEND=file              JSON files under CACHE_DIR (default .cache/mapchat)
+//   CACHE_BACKEND=redis             any Redis-protocol server at REDIS_URL (default redis://127.0.0.1:6379)
+// Each provider gets its own namespace and TTL rules; hit/miss stats are kept per namespace.
+// NOTE: Use this ONLY on the server.
+
+import path from "path";
+import { createMemoryBackend } from "./memory";
+import { createFileBackend } from "./file";
+import { createRedisBackend } from "./redis";
+
+// ---------- Types ----------
+// Backends store serialized values; expiry is their responsibility.
+export interface CacheBackend {
+    name: string;
+    get(key: string): Promise<string | undefined>;
+    set(key: string, value: string, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+export type CachePolicy<T> = {
+    // TTL for a value in ms; return 0 to not cache it at all (e.g. a negative result that should be retried)
+    ttl: (value: T) => number;
+};
+
+export type CacheStats = { hits: number; misses: number; writes: number; backendErrors: number };
+
+export type Cache<T> = {
+    get(key: string): Promise<T | undefined>;
+    set(key: string, value: T): Promise<void>;
+    // returns the cached value, or runs `load` and caches its result according to the policy
+    wrap(key: string, load: () => Promise<T>): Promise<T>;
+};
+
+// ---------- Backend ----------
+let backend: CacheBackend | null = null;
+
+function getBackend(): CacheBackend {
+    if (backend) return backend;
+    const kind = (process.env.CACHE_BACKEND ?? "memory").toLowerCase();
+    if (kind === "file") {
+        backend = createFileBackend(process.env.CACHE_DIR ?? path.join(process.cwd(), ".cache", "mapchat"));
+    } else if (kind === "redis") {
+        backend = createRedisBackend(process.env.REDIS_URL ?? "redis://127.0.0.1:6379");
+    } else {
+        if (kind !== "memory") console.warn(`CACHE_BACKEND: unknown backend "${kind}", using memory`);
+        backend = createMemoryBackend(Number(process.env.CACHE_MAX_ENTRIES ?? 500));
+    }
+    return backend;
+}
+
+// ---------- Stats ----------
+const STATS = new Map<string, CacheStats>();
+
+function statsFor(namespace: string): CacheStats {
+    let s = STATS.get(namespace);
+    if (!s) {
+        s = { hits: 0, misses: 0, writes: 0, backendErrors: 0 };
+        STATS.set(namespace, s);
+    }
+    return s;
+}
+
+// Snapshot of hit/miss counters per namespace for this process.
+export function getCacheStats(): { backend: string; namespaces: Record<string, CacheStats> } {
+    return {
+        backend: getBackend().name,
+        namespaces: Object.fromEntries([...STATS].map(([ns, s]) => [ns, { ...s }])),
+    };
+}
+
+// ---------- Namespaced cache ----------
+// A failing backend never fails the request: errors count as misses / skipped writes.
+export function createCache<T>(namespace: string, policy: CachePolicy<T>): Cache<T> {
+    const stats = statsFor(namespace);
+    const fullKey = (key: string) => `mapchat:${namespace}:${key}`;
+
+    const get = async (key: string): Promise<T | undefined> => {
+        let raw: string | undefined;
+        try {
+            raw = await getBackend().get(fullKey(key));
+        } catch (e: any) {
+            stats.backendErrors++;
+            console.warn(`Cache ${namespace} read failed: ${e?.message ?? e}`);
+        }
+        if (raw === undefined) {
+            stats.misses++;
+            return;
+        }
+        stats.hits++;
+        return JSON.parse(raw) as T;
+    };
+
+    const set = async (key: string, value: T): Promise<void> => {
+        const ttl = policy.ttl(value);
+        if (ttl <= 0) return;
+        try {
+            await getBackend().set(fullKey(key), JSON.stringify(value), ttl);
+            stats.writes++;
+        } catch (e: any) {
+            stats.backendErrors++;
+            console.warn(`Cache ${namespace} write failed: ${e?.message ?? e}`);
+        }
+    };
+
+    return {
+        get,
+        set,
+        async wrap(key, load) {
+            const cached = await get(key);
+            if (cached !== undefined) return cached;
+            const value = await load();
+            await set(key, value);
+            return value;
+        },
+    };
+}
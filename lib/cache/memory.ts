@@ -0,0 +1,35 @@
+// lib/cache/memory.ts
+// In-memory LRU backend. Per process only: entries vanish on restart / serverless cold start.
+
+import type { CacheBackend } from "./index";
+
+type Entry = { value: string; expires: number };
+
+export function createMemoryBackend(maxEntries = 500): CacheBackend {
+    // Map keeps insertion order; re-inserting on every hit keeps the least recently used entry first
+    const entries = new Map<string, Entry>();
+
+    return {
+        name: "memory",
+        async get(key) {
+            const hit = entries.get(key);
+            if (!hit) return;
+            entries.delete(key);
+            if (Date.now() > hit.expires) return;
+            entries.set(key, hit);
+            return hit.value;
+        },
+        async set(key, value, ttlMs) {
+            entries.delete(key);
+            while (entries.size >= maxEntries) {
+                const oldest = entries.keys().next().value;
+                if (oldest === undefined) break;
+                entries.delete(oldest);
+            }
+            entries.set(key, { value, expires: Date.now() + ttlMs });
+        },
+        async delete(key) {
+            entries.delete(key);
+        },
+    };
+}
@@ -0,0 +1,137 @@
+// lib/cache/redis.ts
+// Redis-protocol backend (Redis, Valkey, KeyDB, Dragonfly, ...), speaking RESP over a single TCP connection.
+// Only GET/SET/DEL are needed, so this avoids pulling in a client library.
+
+import net from "net";
+import type { CacheBackend } from "./index";
+
+type Reply = string | number | null | Error | Reply[];
+type Pending = { resolve: (r: Reply) => void; reject: (e: Error) => void };
+
+const COMMAND_TIMEOUT_MS = 1000;
+
+// url: redis://[[user]:password@]host[:port][/db]
+export function createRedisBackend(url: string): CacheBackend {
+    const u = new URL(url);
+    const host = u.hostname || "127.0.0.1";
+    const port = Number(u.port || 6379);
+    const db = Number(u.pathname.slice(1) || 0);
+
+    let socket: net.Socket | null = null;
+    let buffer = Buffer.alloc(0);
+    const pending: Pending[] = [];
+
+    const fail = (err: Error) => {
+        socket?.destroy();
+        socket = null;
+        buffer = Buffer.alloc(0);
+        for (const p of pending.splice(0)) p.reject(err);
+    };
+
+    const connect = () => {
+        const s = net.createConnection({ host, port });
+        s.setNoDelay(true);
+        s.on("data", (chunk) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            try {
+                for (;;) {
+                    const parsed = parseReply(buffer, 0);
+                    if (!parsed) break;
+                    buffer = buffer.subarray(parsed[1]);
+                    pending.shift()?.resolve(parsed[0]);
+                }
+            } catch (e: any) {
+                fail(e);
+            }
+        });
+        // events of a socket that was already replaced must not tear down the new one
+        s.on("error", (e) => { if (socket === s) fail(e); });
+        s.on("close", () => { if (socket === s) fail(new Error("Redis connection closed")); });
+        socket = s;
+        // handshake is pipelined ahead of the first real command
+        if (u.password) {
+            const auth = u.username
+                ? ["AUTH", decodeURIComponent(u.username), decodeURIComponent(u.password)]
+                : ["AUTH", decodeURIComponent(u.password)];
+            send(auth).catch(() => undefined);
+        }
+        if (db) send(["SELECT", String(db)]).catch(() => undefined);
+    };
+
+    function send(args: string[]): Promise<Reply> {
+        if (!socket) connect();
+        return new Promise<Reply>((resolve, reject) => {
+            const timer = setTimeout(() => fail(new Error("Redis command timed out")), COMMAND_TIMEOUT_MS);
+            pending.push({
+                resolve: (r) => { clearTimeout(timer); resolve(r); },
+                reject: (e) => { clearTimeout(timer); reject(e); },
+            });
+            socket!.write(encodeCommand(args));
+        });
+    }
+
+    async function command(args: string[]): Promise<Reply> {
+        const reply = await send(args);
+        if (reply instanceof Error) throw reply;
+        return reply;
+    }
+
+    return {
+        name: "redis",
+        async get(key) {
+            const reply = await command(["GET", key]);
+            return typeof reply === "string" ? reply : undefined;
+        },
+        async set(key, value, ttlMs) {
+            await command(["SET", key, value, "PX", String(Math.max(1, Math.round(ttlMs)))]);
+        },
+        async delete(key) {
+            await command(["DEL", key]);
+        },
+    };
+}
+
+function encodeCommand(args: string[]): string {
+    let out = `*${args.length}\r\n`;
+    for (const a of args) out += `$${Buffer.byteLength(a)}\r\n${a}\r\n`;
+    return out;
+}
+
+// Parses one RESP reply starting at `offset`; returns [reply, nextOffset] or null when more data is needed.
+function parseReply(buf: Buffer, offset: number): [Reply, number] | null {
+    const lineEnd = buf.indexOf("\r\n", offset);
+    if (lineEnd === -1) return null;
+    const kind = String.fromCharCode(buf[offset]);
+    const line = buf.toString("utf8", offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (kind) {
+        case "+":
+            return [line, next];
+        case "-":
+            return [new Error(line), next];
+        case ":":
+            return [Number(line), next];
+        case "$": {
+            const len = Number(line);
+            if (len < 0) return [null, next];
+            if (buf.length < next + len + 2) return null;
+            return [buf.toString("utf8", next, next + len), next + len + 2];
+        }
+        case "*": {
+            const count = Number(line);
+            if (count < 0) return [null, next];
+            const items: Reply[] = [];
+            let pos = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buf, pos);
+                if (!item) return null;
+                items.push(item[0]);
+                pos = item[1];
+            }
+            return [items, pos];
+        }
+        default:
+            throw new Error(`Unexpected Redis reply type "${kind}"`);
+    }
+}
@@ -0,0 +1,189 @@
+// lib/export.ts
+// Converts result FeatureCollections into GeoJSON, KML, GPX and CSV for use in other GIS tools.
+// Nested Foursquare/Nominatim properties are flattened into columns (e.g. address.city, categories).
+
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import { bbox } from "./geo";
+
+export const EXPORT_FORMATS = ["geojson", "kml", "gpx", "csv"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportFile = { content: string; mimeType: string; filename: string };
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    geojson: "application/geo+json",
+    kml: "application/vnd.google-earth.kml+xml",
+    gpx: "application/gpx+xml",
+    csv: "text/csv",
+};
+
+export function isExportFormat(f: unknown): f is ExportFormat {
+    return typeof f === "string" && (EXPORT_FORMATS as readonly string[]).includes(f);
+}
+
+// converts a FeatureCollection into the requested format; `name` becomes the document name and file name
+export function exportFeatureCollection(fc: FeatureCollection, format: ExportFormat, name = "mapchat"): ExportFile {
+    const content =
+        format === "kml" ? toKML(fc, name)
+            : format === "gpx" ? toGPX(fc, name)
+                : format === "csv" ? toCSV(fc)
+                    : JSON.stringify(fc, null, 2);
+    return { content, mimeType: MIME_TYPES[format], filename: `${safeFileName(name)}.${format}` };
+}
+
+// ---------- Flattening ----------
+
+// flattens nested properties into dotted keys; arrays of scalars are joined with "; ", other arrays kept as JSON
+export function flattenProperties(props: Record<string, any> | null | undefined, prefix = ""): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [k, v] of Object.entries(props ?? {})) {
+        const key = prefix ? `${prefix}.${k}` : k;
+        if (v === null || v === undefined) continue;
+        if (Array.isArray(v)) {
+            out[key] = v.every((x) => typeof x !== "object" || x === null) ? v.join("; ") : JSON.stringify(v);
+        } else if (typeof v === "object") {
+            Object.assign(out, flattenProperties(v, key));
+        } else {
+            out[key] = String(v);
+        }
+    }
+    return out;
+}
+
+// display name of a feature across our sources
+function featureName(f: Feature): string {
+    const p: any = f.properties ?? {};
+    return String(p.name ?? p.display_name ?? p.category ?? "");
+}
+
+// ---------- CSV ----------
+
+// one row per feature: name, a representative lng/lat, the geometry type, WKT for non-point geometries,
+// then one column per flattened property
+function toCSV(fc: FeatureCollection): string {
+    const rows = fc.features.map((f) => ({ f, props: flattenProperties(f.properties) }));
+    const fixed = ["name", "longitude", "latitude", "geometry_type", "wkt"];
+    const columns = [...new Set(rows.flatMap((r) => Object.keys(r.props)))].filter((c) => !fixed.includes(c));
+    const header = [...fixed, ...columns];
+    const lines = [header.map(csvCell).join(",")];
+    for (const { f, props } of rows) {
+        const [lng, lat] = representativePoint(f.geometry) ?? ["", ""];
+        const wkt = f.geometry && f.geometry.type !== "Point" ? toWKT(f.geometry) : "";
+        lines.push([featureName(f), lng, lat, f.geometry?.type ?? "", wkt, ...columns.map((c) => props[c] ?? "")].map(csvCell).join(","));
+    }
+    return lines.join("\r\n");
+}
+
+function csvCell(v: unknown): string {
+    const s = String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// the point itself, or the center of the bounding box for other geometries
+export function representativePoint(g: Geometry | null): [number, number] | null {
+    if (!g) return null;
+    if (g.type === "Point") return g.coordinates as [number, number];
+    const b = bbox(g);
+    return b ? [(b[0] + b[2]) / 2, (b[1] + b[3]) / 2] : null;
+}
+
+function toWKT(g: Geometry): string {
+    const pt = (p: Position) => `${p[0]} ${p[1]}`;
+    const line = (ps: Position[]) => `(${ps.map(pt).join(", ")})`;
+    const poly = (rings: Position[][]) => `(${rings.map(line).join(", ")})`;
+    switch (g.type) {
+        case "Point": return `POINT (${pt(g.coordinates)})`;
+        case "MultiPoint": return `MULTIPOINT ${line(g.coordinates)}`;
+        case "LineString": return `LINESTRING ${line(g.coordinates)}`;
+        case "MultiLineString": return `MULTILINESTRING (${g.coordinates.map(line).join(", ")})`;
+        case "Polygon": return `POLYGON ${poly(g.coordinates)}`;
+        case "MultiPolygon": return `MULTIPOLYGON (${g.coordinates.map(poly).join(", ")})`;
+        case "GeometryCollection": return `GEOMETRYCOLLECTION (${g.geometries.map(toWKT).join(", ")})`;
+    }
+}
+
+// ---------- KML ----------
+
+function toKML(fc: FeatureCollection, name: string): string {
+    const placemarks = fc.features.map((f) => {
+        const props = flattenProperties(f.properties);
+        const data = Object.entries(props)
+            .map(([k, v]) => `        <Data name="${xml(k)}"><value>${xml(v)}</value></Data>`)
+            .join("\n");
+        return [
+            "    <Placemark>",
+            `      <name>${xml(featureName(f))}</name>`,
+            "      <ExtendedData>",
+            data,
+            "      </ExtendedData>",
+            f.geometry ? `      ${kmlGeometry(f.geometry)}` : "",
+            "    </Placemark>",
+        ].filter(Boolean).join("\n");
+    });
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+        "  <Document>",
+        `    <name>${xml(name)}</name>`,
+        ...placemarks,
+        "  </Document>",
+        "</kml>",
+    ].join("\n");
+}
+
+function kmlGeometry(g: Geometry): string {
+    const coords = (ps: Position[]) => `<coordinates>${ps.map((p) => `${p[0]},${p[1]}`).join(" ")}</coordinates>`;
+    const polygon = (rings: Position[][]) =>
+        `<Polygon>${rings.map((r, i) =>
+            i === 0
+                ? `<outerBoundaryIs><LinearRing>${coords(r)}</LinearRing></outerBoundaryIs>`
+                : `<innerBoundaryIs><LinearRing>${coords(r)}</LinearRing></innerBoundaryIs>`).join("")}</Polygon>`;
+    switch (g.type) {
+        case "Point": return `<Point>${coords([g.coordinates])}</Point>`;
+        case "LineString": return `<LineString>${coords(g.coordinates)}</LineString>`;
+        case "Polygon": return polygon(g.coordinates);
+        case "MultiPoint": return `<MultiGeometry>${g.coordinates.map((p) => `<Point>${coords([p])}</Point>`).join("")}</MultiGeometry>`;
+        case "MultiLineString": return `<MultiGeometry>${g.coordinates.map((l) => `<LineString>${coords(l)}</LineString>`).join("")}</MultiGeometry>`;
+        case "MultiPolygon": return `<MultiGeometry>${g.coordinates.map(polygon).join("")}</MultiGeometry>`;
+        case "GeometryCollection": return `<MultiGeometry>${g.geometries.map(kmlGeometry).join("")}</MultiGeometry>`;
+    }
+}
+
+// ---------- GPX ----------
+
+// points become waypoints; lines and polygon rings become tracks (GPX has no areas)
+function toGPX(fc: FeatureCollection, name: string): string {
+    const wpts: string[] = [];
+    const trks: string[] = [];
+    const pt = (tag: string, p: Position, inner = "") => `<${tag} lat="${p[1]}" lon="${p[0]}">${inner}</${tag}>`;
+    const seg = (ps: Position[]) => `<trkseg>${ps.map((p) => pt("trkpt", p)).join("")}</trkseg>`;
+
+    for (const f of fc.features) {
+        if (!f.geometry) continue;
+        const fname = `<name>${xml(featureName(f))}</name>`;
+        const desc = Object.entries(flattenProperties(f.properties)).map(([k, v]) => `${k}: ${v}`).join("\n");
+        const meta = `${fname}${desc ? `<desc>${xml(desc)}</desc>` : ""}`;
+        const g = f.geometry;
+        if (g.type === "Point") wpts.push(`  ${pt("wpt", g.coordinates, meta)}`);
+        else if (g.type === "MultiPoint") g.coordinates.forEach((p) => wpts.push(`  ${pt("wpt", p, meta)}`));
+        else if (g.type === "LineString") trks.push(`  <trk>${meta}${seg(g.coordinates)}</trk>`);
+        else if (g.type === "MultiLineString" || g.type === "Polygon") trks.push(`  <trk>${meta}${g.coordinates.map(seg).join("")}</trk>`);
+        else if (g.type === "MultiPolygon") trks.push(`  <trk>${meta}${g.coordinates.flat().map(seg).join("")}</trk>`);
+    }
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<gpx version="1.1" creator="MapChat" xmlns="http://www.topografix.com/GPX/1/1">`,
+        `  <metadata><name>${xml(name)}</name></metadata>`,
+        ...wpts,
+        ...trks,
+        "</gpx>",
+    ].join("\n");
+}
+
+function xml(s: string): string {
+    return s.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c]!);
+}
+
+function safeFileName(name: string): string {
+    return name.replace(/[^\p{L}\p{N}_-]+/gu, "_").replace(/^_+|_+$/g, "").slice(0, 60) || "mapchat";
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import type { LineString, Polygon, Position } from "geojson";
+import {
+    area,
+    bbox,
+    buffer,
+    centroid,
+    circle,
+    coveringCells,
+    destination,
+    distance,
+    distanceToGeometry,
+    EARTH_RADIUS_M,
+    interiorPoint,
+    length,
+    parseCoordinate,
+    pointInPolygon,
+} from "./geo";
+
+const DEGREE_M = (Math.PI / 180) * EARTH_RADIUS_M;   // one degree along a great circle
+
+const square = (x0: number, y0: number, size: number): Position[] =>
+    [[x0, y0], [x0 + size, y0], [x0 + size, y0 + size], [x0, y0 + size], [x0, y0]];
+// 2° square with a 1° hole in the middle
+const framed: Polygon = { type: "Polygon", coordinates: [square(0, 0, 2), square(0.5, 0.5, 1)] };
+
+describe("points", () => {
+    it("measures great-circle distances", () => {
+        expect(distance([0, 0], [0, 1])).toBeCloseTo(DEGREE_M, 6);
+        expect(distance([0, 0], [1, 0])).toBeCloseTo(DEGREE_M, 6);
+        // Seoul City Hall to Busan station
+        expect(distance([126.978, 37.5665], [129.0397, 35.1151]) / 1000).toBeCloseTo(325, -1);
+    });
+
+    it("walks a distance on a bearing", () => {
+        const [lng, lat] = destination([0, 0], DEGREE_M, 90);
+        expect(lng).toBeCloseTo(1, 9);
+        expect(lat).toBeCloseTo(0, 9);
+        // across the antimeridian
+        expect(destination([179.5, 0], DEGREE_M, 90)[0]).toBeCloseTo(-179.5, 9);
+    });
+
+    it("reads typed coordinates as lat, lng", () => {
+        expect(parseCoordinate(" 37.4979, 127.0276 ")).toEqual({ lat: 37.4979, lng: 127.0276 });
+        expect(parseCoordinate("-33.9,18.4")).toEqual({ lat: -33.9, lng: 18.4 });
+        expect(parseCoordinate("95, 10")).toBeNull();
+        expect(parseCoordinate("Gangnam station")).toBeNull();
+    });
+});
+
+describe("whole geometries", () => {
+    it("bounds and centres shapes", () => {
+        expect(bbox(framed)).toEqual([0, 0, 2, 2]);
+        expect(centroid(framed)).toEqual([1, 1]);
+        expect(centroid({ type: "LineString", coordinates: [[0, 0], [2, 4]] })).toEqual([1, 2]);
+        expect(centroid(null)).toBeNull();
+    });
+
+    it("measures areas on the sphere, without holes", () => {
+        const degreeSquare = EARTH_RADIUS_M ** 2 * (Math.PI / 180) * Math.sin(Math.PI / 180);
+        expect(area({ type: "Polygon", coordinates: [square(0, 0, 1)] })).toBeCloseTo(degreeSquare, -3);
+        // winding does not matter
+        expect(area({ type: "Polygon", coordinates: [square(0, 0, 1).reverse()] })).toBeCloseTo(degreeSquare, -3);
+        const outer = area({ type: "Polygon", coordinates: [framed.coordinates[0]] });
+        const hole = area({ type: "Polygon", coordinates: [framed.coordinates[1]] });
+        expect(area(framed)).toBeCloseTo(outer - hole, -3);
+        expect(area({ type: "Point", coordinates: [0, 0] })).toBe(0);
+    });
+
+    it("measures lines and perimeters", () => {
+        expect(length({ type: "LineString", coordinates: [[0, 0], [0, 1], [0, 2]] })).toBeCloseTo(2 * DEGREE_M, 3);
+        expect(length({ type: "Polygon", coordinates: [square(0, 0, 1)] })).toBeGreaterThan(3.99 * DEGREE_M);
+    });
+});
+
+describe("containment", () => {
+    it("respects holes", () => {
+        expect(pointInPolygon([0.25, 0.25], framed)).toBe(true);
+        expect(pointInPolygon([1, 1], framed)).toBe(false);
+        expect(pointInPolygon([3, 3], framed)).toBe(false);
+        expect(pointInPolygon([1, 1], { type: "MultiPolygon", coordinates: [framed.coordinates, [square(0.9, 0.9, 0.2)]] })).toBe(true);
+    });
+
+    it("measures the distance to the nearest part of a geometry", () => {
+        const line: LineString = { type: "LineString", coordinates: [[0, 0], [1, 0]] };
+        expect(distanceToGeometry([0.5, 0.01], line)).toBeCloseTo(0.01 * DEGREE_M, 0);
+        expect(distanceToGeometry([-0.01, 0], line)).toBeCloseTo(0.01 * DEGREE_M, 0);
+        expect(distanceToGeometry([0.25, 0.25], framed)).toBe(0);
+        // from inside the hole to its edge
+        expect(distanceToGeometry([1, 1], framed)).toBeCloseTo(0.5 * DEGREE_M, -2);
+    });
+});
+
+describe("buffers", () => {
+    it("draws circles of the given radius", () => {
+        const ring = circle([127, 37.5], 500).coordinates[0];
+        expect(ring[0]).toEqual(ring[ring.length - 1]);
+        for (const p of ring) expect(distance([127, 37.5], p)).toBeCloseTo(500, 6);
+    });
+
+    it("covers everything within the distance of a line", () => {
+        const street: LineString = { type: "LineString", coordinates: [[127, 37.5], [127.01, 37.5]] };
+        const zone = buffer(street, 100);
+        const north = (m: number): Position => [127.005, 37.5 + m / DEGREE_M];
+        expect(pointInPolygon(north(90), zone)).toBe(true);
+        expect(pointInPolygon(north(110), zone)).toBe(false);
+        // around the ends too
+        expect(pointInPolygon([127.01 + 90 / (DEGREE_M * Math.cos((37.5 * Math.PI) / 180)), 37.5], zone)).toBe(true);
+    });
+});
+
+describe("tiling", () => {
+    // a C open to the east, whose centroid lies in the gap
+    const c = (x: number, y: number): Position => [127 + x, 37 + y];
+    const cShape: Polygon = {
+        type: "Polygon",
+        coordinates: [[c(0, 0), c(0.2, 0), c(0.2, 0.05), c(0.05, 0.05), c(0.05, 0.15), c(0.2, 0.15), c(0.2, 0.2), c(0, 0.2), c(0, 0)]],
+    };
+
+    it("finds a point inside a shape whose centroid is not", () => {
+        expect(pointInPolygon(centroid(cShape)!, cShape)).toBe(false);
+        expect(pointInPolygon(interiorPoint(cShape)!, cShape)).toBe(true);
+        expect(pointInPolygon(interiorPoint(framed)!, framed)).toBe(true);
+    });
+
+    it("covers an area with at most the given number of circles", () => {
+        const { centers, meters } = coveringCells(cShape, 3000, 9, 100_000);
+        expect(centers.length).toBeLessThanOrEqual(9);
+        expect(meters).toBeGreaterThan(3000);
+        // no circle is wasted on the gap, and every part of the C is in one of them
+        for (const p of centers) expect(distanceToGeometry(p, cShape)).toBeLessThan(meters);
+        for (let x = 0.005; x < 0.2; x += 0.01) {
+            for (let y = 0.005; y < 0.2; y += 0.01) {
+                if (!pointInPolygon(c(x, y), cShape)) continue;
+                expect(Math.min(...centers.map((q) => distance(q, c(x, y))))).toBeLessThanOrEqual(meters);
+            }
+        }
+    });
+
+    it("keeps the radius when it covers the area in few enough circles", () => {
+        const { centers, meters } = coveringCells({ type: "Polygon", coordinates: [square(127, 37, 0.05)] }, 3000, 9, 100_000);
+        expect(meters).toBe(3000);
+        expect(centers.length).toBeLessThanOrEqual(9);
+    });
+
+    it("spreads the largest circles over areas they cannot cover", () => {
+        const europe: Polygon = { type: "Polygon", coordinates: [[[-10, 36], [30, 36], [30, 60], [-10, 60], [-10, 36]]] };
+        const { centers, meters } = coveringCells(europe, 3000, 9, 100_000);
+        expect(meters).toBe(100_000);
+        expect(centers).toHaveLength(9);
+        expect(Math.min(...centers.map((p) => p[1]))).toBeLessThan(40);
+        expect(Math.max(...centers.map((p) => p[1]))).toBeGreaterThan(56);
+    });
+});
@@ -0,0 +1,370 @@
+// lib/geo.ts
+// Local geometry helpers on GeoJSON in lng/lat degrees: geodesic distance, area, length, bbox, centroid,
+// point-in-polygon (holes included), buffers, search cells covering an area and simplification. Distances and
+// areas are on a spherical Earth, which is within ~0.5% of the ellipsoid everywhere; buffers use a local flat projection.
+
+import type { Geometry, MultiPolygon, Polygon, Position } from "geojson";
+
+export type LngLat = [number, number];
+export type BBox = [number, number, number, number];   // [minLng, minLat, maxLng, maxLat]
+
+export const EARTH_RADIUS_M = 6_371_008.8;
+const rad = (d: number) => (d * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+// ---------- Points ----------
+
+// great-circle (haversine) distance in meters
+export function distance(a: Position, b: Position): number {
+    const dLat = rad(b[1] - a[1]);
+    const dLng = rad(b[0] - a[0]);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a[1])) * Math.cos(rad(b[1])) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// point reached by going `meters` from `origin` on the initial bearing (degrees clockwise from north)
+export function destination(origin: Position, meters: number, bearing: number): LngLat {
+    const d = meters / EARTH_RADIUS_M;
+    const b = rad(bearing);
+    const lat1 = rad(origin[1]);
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(b));
+    const lng2 = rad(origin[0]) + Math.atan2(Math.sin(b) * Math.sin(d) * Math.cos(lat1), Math.cos(d) - Math.sin(lat1) * Math.sin(lat2));
+    return [((deg(lng2) + 540) % 360) - 180, deg(lat2)];
+}
+
+// "lat, lng" text (as typed by users or sent from the map) to a coordinate; null for anything else
+export function parseCoordinate(text: string): { lat: number; lng: number } | null {
+    const m = text.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+    if (!m) return null;
+    const lat = Number(m[1]), lng = Number(m[2]);
+    return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+}
+
+// ---------- Whole geometries ----------
+
+// every position of a geometry, flattened
+export function positions(g: Geometry): Position[] {
+    switch (g.type) {
+        case "Point": return [g.coordinates];
+        case "MultiPoint":
+        case "LineString": return g.coordinates;
+        case "MultiLineString":
+        case "Polygon": return g.coordinates.flat();
+        case "MultiPolygon": return g.coordinates.flat(2);
+        case "GeometryCollection": return g.geometries.flatMap(positions);
+    }
+}
+
+export function bbox(g: Geometry): BBox | null {
+    const pts = positions(g);
+    if (!pts.length) return null;
+    const out: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const [x, y] of pts) {
+        out[0] = Math.min(out[0], x);
+        out[1] = Math.min(out[1], y);
+        out[2] = Math.max(out[2], x);
+        out[3] = Math.max(out[3], y);
+    }
+    return out;
+}
+
+// area-weighted centroid of the outer rings for (Multi)Polygons, the mean position for anything else
+export function centroid(g: Geometry | undefined | null): LngLat | null {
+    if (!g) return null;
+    if (g.type === "Point") return g.coordinates as LngLat;
+    if (g.type === "Polygon" || g.type === "MultiPolygon") {
+        const polys = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+        let A = 0, CX = 0, CY = 0;
+        for (const poly of polys) {
+            // shoelace formula over the outer ring
+            const ring = poly[0] ?? [];
+            const n = ring.length;
+            if (n < 3) continue;
+            for (let i = 0; i < n; i++) {
+                const [x1, y1] = ring[i], [x2, y2] = ring[(i + 1) % n];
+                const cross = x1 * y2 - x2 * y1;
+                A += cross;
+                CX += (x1 + x2) * cross;
+                CY += (y1 + y2) * cross;
+            }
+        }
+        if (A !== 0) return [CX / (3 * A), CY / (3 * A)];
+        const first = polys[0]?.[0]?.[0];
+        return first ? (first as LngLat) : null;
+    }
+    const pts = positions(g);
+    if (!pts.length) return null;
+    const [sx, sy] = pts.reduce(([ax, ay], [x, y]) => [ax + x, ay + y], [0, 0]);
+    return [sx / pts.length, sy / pts.length];
+}
+
+// area of a ring in m² on the sphere (Chamberlain & Duquette); sign depends on winding
+function ringArea(ring: Position[]): number {
+    let total = 0;
+    const n = ring.length;
+    if (n < 3) return 0;
+    for (let i = 0; i < n; i++) {
+        const [lng1, lat1] = ring[i];
+        const [lng2, lat2] = ring[(i + 1) % n];
+        total += rad(lng2 - lng1) * (2 + Math.sin(rad(lat1)) + Math.sin(rad(lat2)));
+    }
+    return (total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2;
+}
+
+// area in m² of the polygons in a geometry (holes subtracted); 0 for points and lines
+export function area(g: Geometry): number {
+    const polyArea = (rings: Position[][]) =>
+        rings.reduce((sum, r, i) => sum + (i === 0 ? 1 : -1) * Math.abs(ringArea(r)), 0);
+    switch (g.type) {
+        case "Polygon": return polyArea(g.coordinates);
+        case "MultiPolygon": return g.coordinates.reduce((sum, p) => sum + polyArea(p), 0);
+        case "GeometryCollection": return g.geometries.reduce((sum, x) => sum + area(x), 0);
+        default: return 0;
+    }
+}
+
+// length in meters of lines, or the perimeter of polygons (outer rings and holes)
+export function length(g: Geometry): number {
+    const path = (ps: Position[]) => ps.slice(1).reduce((sum, p, i) => sum + distance(ps[i], p), 0);
+    switch (g.type) {
+        case "LineString": return path(g.coordinates);
+        case "MultiLineString":
+        case "Polygon": return g.coordinates.reduce((sum, l) => sum + path(l), 0);
+        case "MultiPolygon": return g.coordinates.flat().reduce((sum, l) => sum + path(l), 0);
+        case "GeometryCollection": return g.geometries.reduce((sum, x) => sum + length(x), 0);
+        default: return 0;
+    }
+}
+
+// ---------- Containment ----------
+
+// even-odd ray casting against one ring
+function inRing(pt: Position, ring: Position[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i], [xj, yj] = ring[j];
+        if ((yi > pt[1]) !== (yj > pt[1]) && pt[0] < ((xj - xi) * (pt[1] - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+// true when the point lies inside an outer ring and outside all of that polygon's holes
+export function pointInPolygon(pt: Position, g: Polygon | MultiPolygon): boolean {
+    const polys = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+    return polys.some(([outer, ...holes]) => !!outer && inRing(pt, outer) && !holes.some((h) => inRing(pt, h)));
+}
+
+// ---------- Local projection ----------
+
+// equirectangular projection in meters around `origin`; accurate enough for buffers up to tens of km
+function localProjection(origin: Position) {
+    const k = Math.cos(rad(origin[1]));
+    const m = rad(1) * EARTH_RADIUS_M;   // meters per degree of latitude
+    return {
+        toXY: (p: Position): [number, number] => [(p[0] - origin[0]) * m * k, (p[1] - origin[1]) * m],
+        toLngLat: ([x, y]: [number, number]): LngLat => [origin[0] + x / (m * k), origin[1] + y / m],
+    };
+}
+
+// shortest distance in meters from a point to a geometry (0 when inside one of its polygons)
+export function distanceToGeometry(pt: Position, g: Geometry): number {
+    if (g.type === "GeometryCollection") return Math.min(...g.geometries.map((x) => distanceToGeometry(pt, x)));
+    if ((g.type === "Polygon" || g.type === "MultiPolygon") && pointInPolygon(pt, g)) return 0;
+    const { toXY } = localProjection(pt);
+    const segments: Position[][] =
+        g.type === "Point" ? [[g.coordinates]]
+            : g.type === "MultiPoint" ? g.coordinates.map((p) => [p])
+                : g.type === "LineString" ? [g.coordinates]
+                    : g.type === "MultiPolygon" ? g.coordinates.flat()
+                        : g.coordinates;
+    let best = Infinity;
+    for (const line of segments) {
+        if (line.length === 1) best = Math.min(best, distance(pt, line[0]));
+        for (let i = 1; i < line.length; i++) {
+            const [ax, ay] = toXY(line[i - 1]);
+            const [bx, by] = toXY(line[i]);
+            const dx = bx - ax, dy = by - ay;
+            const t = dx || dy ? Math.max(0, Math.min(1, (-ax * dx - ay * dy) / (dx * dx + dy * dy))) : 0;
+            best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+        }
+    }
+    return best;
+}
+
+// ---------- Buffers ----------
+
+// circle polygon around a point
+export function circle(center: Position, meters: number, steps = 64): Polygon {
+    const ring: Position[] = [];
+    for (let i = 0; i < steps; i++) ring.push(destination(center, meters, (360 * i) / steps));
+    ring.push(ring[0]);
+    return { type: "Polygon", coordinates: [ring] };
+}
+
+// Buffer of `meters` around a geometry. Points become circles; lines and polygon outlines become a
+// circle per vertex plus a rectangle per segment, returned as overlapping parts of one MultiPolygon
+// (polygons also keep their own area). Good for drawing and containment checks, not for measuring area.
+export function buffer(g: Geometry, meters: number, steps = 32): Polygon | MultiPolygon {
+    if (g.type === "Point") return circle(g.coordinates, meters, steps * 2);
+    const parts: Position[][][] = [];
+    const addLine = (line: Position[]) => {
+        for (const p of line) parts.push(circle(p, meters, steps).coordinates);
+        if (line.length < 2) return;
+        const { toXY, toLngLat } = localProjection(line[0]);
+        for (let i = 1; i < line.length; i++) {
+            const [ax, ay] = toXY(line[i - 1]);
+            const [bx, by] = toXY(line[i]);
+            const len = Math.hypot(bx - ax, by - ay);
+            if (!len) continue;
+            const nx = (-(by - ay) / len) * meters, ny = ((bx - ax) / len) * meters;
+            const rect = [[ax + nx, ay + ny], [bx + nx, by + ny], [bx - nx, by - ny], [ax - nx, ay - ny], [ax + nx, ay + ny]] as [number, number][];
+            parts.push([rect.map(toLngLat)]);
+        }
+    };
+    const add = (x: Geometry) => {
+        switch (x.type) {
+            case "Point": parts.push(circle(x.coordinates, meters, steps).coordinates); break;
+            case "MultiPoint": x.coordinates.forEach((p) => parts.push(circle(p, meters, steps).coordinates)); break;
+            case "LineString": addLine(x.coordinates); break;
+            case "MultiLineString": x.coordinates.forEach(addLine); break;
+            case "Polygon": parts.push(x.coordinates); x.coordinates.forEach(addLine); break;
+            case "MultiPolygon": x.coordinates.forEach((p) => { parts.push(p); p.forEach(addLine); }); break;
+            case "GeometryCollection": x.geometries.forEach(add); break;
+        }
+    };
+    add(g);
+    return { type: "MultiPolygon", coordinates: parts };
+}
+
+// ---------- Search cells ----------
+
+// A point inside a polygon area: the centroid when it lies inside, otherwise the middle of the widest
+// stretch inside the area along a few horizontal lines (for concave shapes and multi-part areas).
+export function interiorPoint(g: Polygon | MultiPolygon): LngLat | null {
+    const c = centroid(g);
+    if (c && pointInPolygon(c, g)) return c;
+    let best: LngLat | null = null, widest = 0;
+    for (const rings of g.type === "Polygon" ? [g.coordinates] : g.coordinates) {
+        const b = bbox({ type: "Polygon", coordinates: rings });
+        if (!b) continue;
+        for (const f of [0.5, 0.25, 0.75]) {
+            const y = b[1] + (b[3] - b[1]) * f;
+            // crossings of the line with all rings; with holes included, every other gap is inside
+            const xs: number[] = [];
+            for (const ring of rings) {
+                for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                    const [xi, yi] = ring[i], [xj, yj] = ring[j];
+                    if ((yi > y) !== (yj > y)) xs.push(((xj - xi) * (y - yi)) / (yj - yi) + xi);
+                }
+            }
+            xs.sort((a, b) => a - b);
+            for (let i = 0; i + 1 < xs.length; i += 2) {
+                if (xs[i + 1] - xs[i] > widest) {
+                    widest = xs[i + 1] - xs[i];
+                    best = [(xs[i] + xs[i + 1]) / 2, y];
+                }
+            }
+        }
+    }
+    return best ?? c;
+}
+
+// Centers of equal circles that together cover a polygon area: a square grid over its bbox, each square
+// inside its circle, keeping the squares near the area. The radius starts at `meters` and grows until at most
+// `maxCells` circles are needed; at `maxMeters` the cells are thinned out evenly instead.
+export function coveringCells(g: Polygon | MultiPolygon, meters: number, maxCells: number, maxMeters: number): { centers: LngLat[]; meters: number } {
+    const b = bbox(g);
+    if (!b) return { centers: [], meters };
+    const perDegree = rad(1) * EARTH_RADIUS_M;
+    const k = Math.max(0.01, Math.cos(rad((b[1] + b[3]) / 2)));
+    // no fewer cells than the area itself needs, so huge areas do not start with a huge grid
+    let r = Math.min(maxMeters, Math.max(meters, Math.sqrt(area(g) / maxCells) / Math.SQRT2));
+    for (;;) {
+        const dLat = (r * Math.SQRT2) / perDegree, dLng = dLat / k;
+        // boundary detail far below the cell size does not change which cells are kept
+        const shape = simplify(g, dLng / 20);
+        const nx = Math.max(1, Math.ceil((b[2] - b[0]) / dLng)), ny = Math.max(1, Math.ceil((b[3] - b[1]) / dLat));
+        const x0 = (b[0] + b[2]) / 2 - ((nx - 1) * dLng) / 2, y0 = (b[1] + b[3]) / 2 - ((ny - 1) * dLat) / 2;
+        const centers: LngLat[] = [];
+        for (let i = 0; i < ny; i++) {
+            for (let j = 0; j < nx; j++) {
+                const c: LngLat = [x0 + j * dLng, y0 + i * dLat];
+                if (distanceToGeometry(c, shape) < r) centers.push(c);
+            }
+        }
+        if (centers.length <= maxCells) return { centers, meters: r };
+        if (r >= maxMeters) {
+            return { centers: Array.from({ length: maxCells }, (_, i) => centers[Math.floor((i * centers.length) / maxCells)]), meters: r };
+        }
+        r = Math.min(maxMeters, r * Math.sqrt(centers.length / maxCells) * 1.1);
+    }
+}
+
+// ---------- Simplification ----------
+
+// squared distance from p to the segment a-b, in the units of the inputs
+function segmentDistance2([px, py]: number[], [ax, ay]: number[], [bx, by]: number[]): number {
+    const dx = bx - ax, dy = by - ay;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len2)) : 0;
+    const x = ax + t * dx - px, y = ay + t * dy - py;
+    return x * x + y * y;
+}
+
+// Douglas–Peucker on one line or ring (iterative, so long boundaries cannot overflow the stack).
+// Latitudes are stretched like on a Mercator map, so `tolerance` is in degrees of longitude everywhere.
+// Returns null when fewer than `minPoints` would be left.
+function simplifyLine(line: Position[], tolerance: number, minPoints: number): Position[] | null {
+    if (line.length <= 2) return line.length >= minPoints ? line : null;
+    const k = 1 / Math.max(0.01, Math.cos(rad(line[0][1])));
+    const xy = line.map((p) => [p[0], p[1] * k]);
+    const keep = new Uint8Array(line.length);
+    keep[0] = keep[line.length - 1] = 1;
+    const t2 = tolerance * tolerance;
+    const stack: [number, number][] = [[0, line.length - 1]];
+    while (stack.length) {
+        const [first, last] = stack.pop()!;
+        let max = 0, index = -1;
+        for (let i = first + 1; i < last; i++) {
+            const d = segmentDistance2(xy[i], xy[first], xy[last]);
+            if (d > max) {
+                max = d;
+                index = i;
+            }
+        }
+        if (index >= 0 && max > t2) {
+            keep[index] = 1;
+            stack.push([first, index], [index, last]);
+        }
+    }
+    const out = line.filter((_, i) => keep[i]);
+    return out.length >= minPoints ? out : null;
+}
+
+// Simplified copy of a geometry for drawing: vertices closer than `tolerance` (degrees, see simplifyLine)
+// to the simplified shape are dropped, and so are holes and islands that shrink to nothing. A polygon
+// whose only ring would vanish is kept as it was.
+export function simplify(g: Geometry, tolerance: number): Geometry {
+    const polygon = (rings: Position[][]): Position[][] | null => {
+        const outer = simplifyLine(rings[0] ?? [], tolerance, 4);
+        if (!outer) return null;
+        const holes = rings.slice(1).map((r) => simplifyLine(r, tolerance, 4));
+        return [outer, ...holes.filter((r): r is Position[] => r !== null)];
+    };
+    switch (g.type) {
+        case "LineString":
+            return { ...g, coordinates: simplifyLine(g.coordinates, tolerance, 2) ?? g.coordinates };
+        case "MultiLineString":
+            return { ...g, coordinates: g.coordinates.map((l) => simplifyLine(l, tolerance, 2) ?? l) };
+        case "Polygon":
+            return { ...g, coordinates: polygon(g.coordinates) ?? g.coordinates };
+        case "MultiPolygon": {
+            const parts = g.coordinates.map(polygon).filter((p): p is Position[][] => p !== null);
+            return { ...g, coordinates: parts.length ? parts : g.coordinates };
+        }
+        case "GeometryCollection":
+            return { ...g, geometries: g.geometries.map((x) => simplify(x, tolerance)) };
+        default:
+            return g;
+    }
+}
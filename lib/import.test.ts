@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+// KML and GPX are read with DOMParser, so these run in a browser-like environment
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection } from "geojson";
+import { exportFeatureCollection, type ExportFormat } from "./export";
+import { parseImportFile, summarizeImport } from "./import";
+
+const square: [number, number][] = [[126.97, 37.56], [126.99, 37.56], [126.99, 37.58], [126.97, 37.58], [126.97, 37.56]];
+const hole: [number, number][] = [[126.975, 37.565], [126.985, 37.565], [126.985, 37.575], [126.975, 37.565]];
+
+const results: FeatureCollection = {
+    type: "FeatureCollection",
+    features: [
+        {
+            type: "Feature",
+            properties: { name: "Cafe \"Onion\", Anguk", rating: 8.7, categories: ["Cafe", "Bakery"], address: { city: "Seoul" } },
+            geometry: { type: "Point", coordinates: [126.9849, 37.5765] },
+        },
+        {
+            type: "Feature",
+            properties: { name: "Walk" },
+            geometry: { type: "LineString", coordinates: [[126.97, 37.56], [126.98, 37.57], [126.99, 37.575]] },
+        },
+        {
+            type: "Feature",
+            properties: { name: "Park <north>" },
+            geometry: { type: "Polygon", coordinates: [square, hole] },
+        },
+    ],
+};
+
+const roundTrip = (format: ExportFormat) => {
+    const file = exportFeatureCollection(results, format, "Seoul results");
+    return parseImportFile(file.filename, file.content);
+};
+
+describe("export and import", () => {
+    it("names the file after the layer", () => {
+        expect(exportFeatureCollection(results, "kml", "Cafes: Seoul/Anguk").filename).toBe("Cafes_Seoul_Anguk.kml");
+    });
+
+    it("round-trips GeoJSON unchanged", () => {
+        const { data, errors } = roundTrip("geojson");
+        expect(errors).toEqual([]);
+        expect(data).toEqual(results);
+    });
+
+    it.each(["kml", "csv"] as const)("round-trips every geometry through %s", (format) => {
+        const { data, errors } = roundTrip(format);
+        expect(errors).toEqual([]);
+        expect(data.features.map((f) => f.geometry)).toEqual(results.features.map((f) => f.geometry));
+    });
+
+    it.each(["kml", "csv"] as const)("keeps names and flattened properties through %s", (format) => {
+        const [cafe, , park] = roundTrip(format).data.features;
+        expect(cafe.properties).toMatchObject({ name: "Cafe \"Onion\", Anguk", rating: "8.7", categories: "Cafe; Bakery", "address.city": "Seoul" });
+        expect(park.properties?.name).toBe("Park <north>");
+    });
+
+    it.each(["csv", "kml", "geojson"] as const)("round-trips multi-part geometries through %s", (format) => {
+        const island: [number, number][] = [[126.9, 37.5], [126.91, 37.5], [126.91, 37.51], [126.9, 37.5]];
+        const parts: FeatureCollection = {
+            type: "FeatureCollection",
+            features: [
+                { type: "Feature", properties: { name: "City" }, geometry: { type: "MultiPolygon", coordinates: [[square, hole], [island]] } },
+                { type: "Feature", properties: { name: "Stops" }, geometry: { type: "MultiPoint", coordinates: [[126.97, 37.56], [126.98, 37.57]] } },
+                { type: "Feature", properties: { name: "Lines" }, geometry: { type: "MultiLineString", coordinates: [square.slice(0, 2), hole.slice(0, 3)] } },
+            ],
+        };
+        const file = exportFeatureCollection(parts, format, "Parts");
+        const { data, errors } = parseImportFile(file.filename, file.content);
+        expect(errors).toEqual([]);
+        expect(data.features.map((f) => f.geometry)).toEqual(parts.features.map((f) => f.geometry));
+    });
+
+    it("reads geometry collections back from CSV", () => {
+        const mixed: FeatureCollection = {
+            type: "FeatureCollection",
+            features: [{
+                type: "Feature",
+                properties: { name: "Mixed" },
+                geometry: { type: "GeometryCollection", geometries: [results.features[0].geometry, { type: "Polygon", coordinates: [square] }] },
+            }],
+        };
+        const file = exportFeatureCollection(mixed, "csv", "Mixed");
+        expect(parseImportFile(file.filename, file.content).data.features[0].geometry).toEqual(mixed.features[0].geometry);
+    });
+
+    it("round-trips points and lines through GPX", () => {
+        const { data, errors } = roundTrip("gpx");
+        expect(errors).toEqual([]);
+        const geometries = data.features.map((f) => f.geometry);
+        expect(geometries).toContainEqual(results.features[0].geometry);
+        expect(geometries).toContainEqual(results.features[1].geometry);
+        expect(data.features.find((f) => f.geometry.type === "Point")?.properties?.name).toBe("Cafe \"Onion\", Anguk");
+    });
+
+    it("describes an imported file for the chatbot", () => {
+        const summary = summarizeImport(roundTrip("csv"));
+        expect(summary.skipped).toBe(0);
+        expect(summary.points[0]).toEqual({ name: "Cafe \"Onion\", Anguk", lat: 37.5765, lng: 126.9849 });
+        expect(summary.properties).toContain("address.city");
+    });
+});
+
+describe("import", () => {
+    it("skips rows without usable coordinates and says why", () => {
+        const csv = "name,lat,lng\nok,37.5,127\nfar,95,127\nbroken,abc,127\nshort,37.5\n";
+        const { data, errors } = parseImportFile("points.csv", csv);
+        expect(data.features).toHaveLength(1);
+        expect(errors).toEqual([
+            "Row 3: coordinate out of range (127, 95)",
+            "Row 4: invalid coordinate",
+            "Row 5: expected 3 columns, found 2",
+        ]);
+    });
+
+    it("falls back to the point columns when the WKT cannot be read", () => {
+        const csv = "name,longitude,latitude,wkt\nA,127,37.5,\"CIRCULARSTRING (0 0, 1 1, 2 0)\"\nB,,,\"POLYGON ((0 0, 1 1)\"\n";
+        const { data, errors } = parseImportFile("shapes.csv", csv);
+        expect(data.features.map((f) => f.geometry)).toEqual([{ type: "Point", coordinates: [127, 37.5] }]);
+        expect(errors).toEqual(["Row 3: cannot read WKT \"POLYGON ((0 0, 1 1)\""]);
+    });
+
+    it("rejects files it cannot read as a whole", () => {
+        expect(() => parseImportFile("points.csv", "name,city\nA,Seoul")).toThrow(/latitude\/longitude/);
+        expect(() => parseImportFile("data.geojson", "{")).toThrow(/Invalid JSON/);
+        expect(() => parseImportFile("map.shp", "")).toThrow(/Unsupported file type/);
+    });
+});
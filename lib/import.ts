@@ -0,0 +1,396 @@
+// lib/import.ts
+// Parses user files (GeoJSON, KML, GPX, CSV) into FeatureCollections for drawing as layers.
+// Every feature's geometry is validated; rows that cannot be used are skipped and reported with a reason.
+// CSV files need latitude/longitude columns (lat/lng, latitude/longitude, y/x ...) or a WKT column,
+// e.g. the CSV written by lib/export.ts; rows whose WKT cannot be read fall back to the latitude/longitude columns.
+// NOTE: Use this ONLY on the client (KML and GPX are read with DOMParser).
+
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import { flattenProperties, representativePoint } from "./export";
+
+// ---------- Types ----------
+export type ImportResult = {
+    data: FeatureCollection;
+    errors: string[];                 // one entry per skipped feature/row, e.g. "Row 4: invalid latitude"
+};
+
+// compact description of an imported layer for the chatbot
+export type ImportSummary = {
+    properties: string[];             // property columns available on the features
+    points: { name: string; lat: number; lng: number }[];
+    skipped: number;
+};
+
+export const IMPORT_EXTENSIONS = [".geojson", ".json", ".kml", ".gpx", ".csv"];
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+const MAX_SUMMARY_POINTS = 50;
+
+// Parses a file by its extension; throws when the file as a whole cannot be read.
+export function parseImportFile(filename: string, text: string): ImportResult {
+    const ext = filename.toLowerCase().slice(filename.lastIndexOf("."));
+    if (ext === ".geojson" || ext === ".json") return parseGeoJSON(text);
+    if (ext === ".kml") return parseKML(text);
+    if (ext === ".gpx") return parseGPX(text);
+    if (ext === ".csv") return parseCSV(text);
+    throw new Error(`Unsupported file type "${ext}", expected one of ${IMPORT_EXTENSIONS.join(", ")}`);
+}
+
+export function summarizeImport(result: ImportResult): ImportSummary {
+    const features = result.data.features;
+    const properties = [...new Set(features.flatMap((f) => Object.keys(flattenProperties(f.properties))))].slice(0, 20);
+    const points = features.slice(0, MAX_SUMMARY_POINTS).flatMap((f, i) => {
+        const pt = representativePoint(f.geometry);
+        if (!pt) return [];
+        const p: any = f.properties ?? {};
+        const name = String(p.name ?? p.title ?? p.display_name ?? `#${i + 1}`).slice(0, 80);
+        return [{ name, lat: Number(pt[1].toFixed(5)), lng: Number(pt[0].toFixed(5)) }];
+    });
+    return { properties, points, skipped: result.errors.length };
+}
+
+// ---------- Validation ----------
+
+// reason a geometry cannot be drawn, or null when it is valid
+export function geometryError(g: any): string | null {
+    if (!g || typeof g !== "object") return "missing geometry";
+    const pos = (p: any) => Array.isArray(p) && p.length >= 2 && p.every((n: any) => typeof n === "number" && Number.isFinite(n));
+    const inRange = (p: number[]) => Math.abs(p[0]) <= 180 && Math.abs(p[1]) <= 90;
+    const check = (p: any): string | null => (!pos(p) ? "invalid coordinate" : !inRange(p) ? `coordinate out of range (${p[0]}, ${p[1]})` : null);
+    const checkAll = (ps: any, min: number, what: string): string | null => {
+        if (!Array.isArray(ps) || ps.length < min) return `${what} needs at least ${min} positions`;
+        for (const p of ps) {
+            const err = check(p);
+            if (err) return err;
+        }
+        return null;
+    };
+    const checkRings = (rings: any): string | null => {
+        if (!Array.isArray(rings) || !rings.length) return "polygon without rings";
+        for (const r of rings) {
+            const err = checkAll(r, 4, "polygon ring");
+            if (err) return err;
+            const [a, b] = [r[0], r[r.length - 1]];
+            if (a[0] !== b[0] || a[1] !== b[1]) return "polygon ring is not closed";
+        }
+        return null;
+    };
+    const each = (items: any, fn: (x: any) => string | null, what: string): string | null => {
+        if (!Array.isArray(items) || !items.length) return `empty ${what}`;
+        for (const x of items) {
+            const err = fn(x);
+            if (err) return err;
+        }
+        return null;
+    };
+    switch (g.type) {
+        case "Point": return check(g.coordinates);
+        case "MultiPoint": return each(g.coordinates, check, "MultiPoint");
+        case "LineString": return checkAll(g.coordinates, 2, "line");
+        case "MultiLineString": return each(g.coordinates, (l) => checkAll(l, 2, "line"), "MultiLineString");
+        case "Polygon": return checkRings(g.coordinates);
+        case "MultiPolygon": return each(g.coordinates, checkRings, "MultiPolygon");
+        case "GeometryCollection": return each(g.geometries, geometryError, "GeometryCollection");
+        default: return `unsupported geometry type "${g.type}"`;
+    }
+}
+
+// keeps valid features and reports the rest under `label` (e.g. "Feature 3", "Row 12")
+function collect(items: { label: string; feature: Feature | string }[]): ImportResult {
+    const features: Feature[] = [];
+    const errors: string[] = [];
+    for (const { label, feature } of items) {
+        const err = typeof feature === "string" ? feature : geometryError(feature.geometry);
+        if (err) errors.push(`${label}: ${err}`);
+        else features.push(feature as Feature);
+    }
+    return { data: { type: "FeatureCollection", features }, errors };
+}
+
+// ---------- GeoJSON ----------
+
+function parseGeoJSON(text: string): ImportResult {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch (e: any) {
+        throw new Error(`Invalid JSON: ${e.message}`);
+    }
+    const items: any[] =
+        json?.type === "FeatureCollection" && Array.isArray(json.features) ? json.features
+            : json?.type === "Feature" ? [json]
+                : typeof json?.type === "string" ? [{ type: "Feature", properties: {}, geometry: json }]
+                    : null;
+    if (!items) throw new Error("Not a GeoJSON FeatureCollection, Feature or geometry");
+    return collect(items.map((f, i) => ({
+        label: `Feature ${i + 1}`,
+        feature: f?.type !== "Feature" ? "not a Feature" : { type: "Feature", properties: f.properties ?? {}, geometry: f.geometry },
+    })));
+}
+
+// ---------- KML / GPX ----------
+
+function parseXML(text: string, kind: string): Document {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length) throw new Error(`Invalid ${kind}: the file is not well-formed XML`);
+    return doc;
+}
+
+// direct children with the given local name (ignores namespaces such as kml: or gpx:)
+function children(el: Element, name: string): Element[] {
+    return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+function childText(el: Element, name: string): string | undefined {
+    return children(el, name)[0]?.textContent?.trim() || undefined;
+}
+
+// all descendants with the given local name
+function descendants(el: Document | Element, name: string): Element[] {
+    return Array.from(el.getElementsByTagNameNS("*", name));
+}
+
+// "lng,lat[,alt] lng,lat[,alt] ..."; NaN positions are left for validation to report
+function kmlCoordinates(el: Element | undefined): Position[] {
+    const text = el ? childText(el, "coordinates") ?? "" : "";
+    return text.split(/\s+/).filter(Boolean).map((t) => t.split(",").slice(0, 2).map(Number));
+}
+
+function kmlGeometry(el: Element): Geometry | null {
+    switch (el.localName) {
+        case "Point": return { type: "Point", coordinates: kmlCoordinates(el)[0] };
+        case "LineString": return { type: "LineString", coordinates: kmlCoordinates(el) };
+        case "Polygon": {
+            const ring = (b: Element) => kmlCoordinates(children(b, "LinearRing")[0]);
+            return {
+                type: "Polygon",
+                coordinates: [...children(el, "outerBoundaryIs").map(ring), ...children(el, "innerBoundaryIs").map(ring)],
+            };
+        }
+        case "MultiGeometry": {
+            const parts = Array.from(el.children).map(kmlGeometry).filter((g): g is Geometry => !!g);
+            const types = new Set(parts.map((g) => g.type));
+            if (types.size === 1 && types.has("Point")) return { type: "MultiPoint", coordinates: parts.map((g: any) => g.coordinates) };
+            if (types.size === 1 && types.has("LineString")) return { type: "MultiLineString", coordinates: parts.map((g: any) => g.coordinates) };
+            if (types.size === 1 && types.has("Polygon")) return { type: "MultiPolygon", coordinates: parts.map((g: any) => g.coordinates) };
+            return { type: "GeometryCollection", geometries: parts };
+        }
+        default: return null;
+    }
+}
+
+function parseKML(text: string): ImportResult {
+    const doc = parseXML(text, "KML");
+    const placemarks = descendants(doc, "Placemark");
+    if (!placemarks.length && !descendants(doc, "kml").length) throw new Error("Not a KML document");
+    return collect(placemarks.map((pm, i) => {
+        const properties: Record<string, string> = {};
+        const name = childText(pm, "name");
+        const description = childText(pm, "description");
+        if (name) properties.name = name;
+        if (description) properties.description = description;
+        for (const d of descendants(pm, "Data")) {
+            const key = d.getAttribute("name");
+            if (key) properties[key] = childText(d, "value") ?? "";
+        }
+        for (const d of descendants(pm, "SimpleData")) {
+            const key = d.getAttribute("name");
+            if (key) properties[key] = d.textContent?.trim() ?? "";
+        }
+        const geomEl = Array.from(pm.children).find((c) => ["Point", "LineString", "Polygon", "MultiGeometry"].includes(c.localName));
+        const geometry = geomEl ? kmlGeometry(geomEl) : null;
+        return {
+            label: `Placemark ${i + 1}${name ? ` (${name})` : ""}`,
+            feature: geometry ? { type: "Feature", properties, geometry } as Feature : "no supported geometry",
+        };
+    }));
+}
+
+function gpxPoint(el: Element): Position {
+    return [Number(el.getAttribute("lon")), Number(el.getAttribute("lat"))];
+}
+
+function gpxProperties(el: Element, kind: string): Record<string, string> {
+    const properties: Record<string, string> = { gpx_type: kind };
+    for (const key of ["name", "desc", "cmt", "type", "ele", "time"]) {
+        const v = childText(el, key);
+        if (v) properties[key] = v;
+    }
+    return properties;
+}
+
+function parseGPX(text: string): ImportResult {
+    const doc = parseXML(text, "GPX");
+    if (!descendants(doc, "gpx").length) throw new Error("Not a GPX document");
+    const items: { label: string; feature: Feature | string }[] = [];
+    descendants(doc, "wpt").forEach((w, i) => items.push({
+        label: `Waypoint ${i + 1}`,
+        feature: { type: "Feature", properties: gpxProperties(w, "waypoint"), geometry: { type: "Point", coordinates: gpxPoint(w) } },
+    }));
+    descendants(doc, "rte").forEach((r, i) => items.push({
+        label: `Route ${i + 1}`,
+        feature: { type: "Feature", properties: gpxProperties(r, "route"), geometry: { type: "LineString", coordinates: children(r, "rtept").map(gpxPoint) } },
+    }));
+    descendants(doc, "trk").forEach((t, i) => {
+        const segs = children(t, "trkseg").map((s) => children(s, "trkpt").map(gpxPoint));
+        items.push({
+            label: `Track ${i + 1}`,
+            feature: {
+                type: "Feature",
+                properties: gpxProperties(t, "track"),
+                geometry: segs.length === 1 ? { type: "LineString", coordinates: segs[0] } : { type: "MultiLineString", coordinates: segs },
+            },
+        });
+    });
+    return collect(items);
+}
+
+// ---------- CSV ----------
+
+const LAT_COLUMNS = ["lat", "latitude", "y"];
+const LNG_COLUMNS = ["lng", "lon", "long", "longitude", "x"];
+
+function parseCSV(text: string): ImportResult {
+    const rows = csvRows(text.replace(/^\uFEFF/, ""));
+    const header = (rows.shift() ?? []).map((h) => h.trim());
+    const lower = header.map((h) => h.toLowerCase());
+    const latCol = lower.findIndex((h) => LAT_COLUMNS.includes(h));
+    const lngCol = lower.findIndex((h) => LNG_COLUMNS.includes(h));
+    const wktCol = lower.findIndex((h) => h === "wkt" || h === "geometry");
+    if ((latCol === -1 || lngCol === -1) && wktCol === -1) {
+        throw new Error("CSV needs latitude/longitude columns (e.g. lat and lng) or a WKT column");
+    }
+    const skip = new Set([latCol, lngCol, wktCol, lower.indexOf("geometry_type")]);
+
+    return collect(rows.map((row, i) => {
+        const label = `Row ${i + 2}`;
+        if (row.length !== header.length) return { label, feature: `expected ${header.length} columns, found ${row.length}` };
+        const properties: Record<string, string> = {};
+        header.forEach((h, c) => {
+            if (!skip.has(c) && row[c] !== "") properties[h] = row[c];
+        });
+        const wkt = wktCol !== -1 ? row[wktCol].trim() : "";
+        let geometry = wkt ? parseWKT(wkt) : null;
+        // the export writes a representative point next to the WKT
+        if (!geometry && latCol !== -1 && lngCol !== -1 && (!wkt || (row[latCol].trim() && row[lngCol].trim()))) {
+            const lat = parseFloat(row[latCol]);
+            const lng = parseFloat(row[lngCol]);
+            geometry = { type: "Point", coordinates: [lng, lat] };
+        }
+        if (!geometry) return { label, feature: wkt ? `cannot read WKT "${wkt.slice(0, 40)}"` : "no coordinates" };
+        return { label, feature: { type: "Feature", properties, geometry } as Feature };
+    }));
+}
+
+// RFC 4180 rows: quoted cells may contain commas, quotes ("") and line breaks; blank lines are dropped
+function csvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && text[i + 1] === "\n") i++;
+            row.push(cell);
+            if (row.length > 1 || row[0] !== "") rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += ch;
+        }
+    }
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    return rows;
+}
+
+// WKT in lng/lat order: POINT, LINESTRING, POLYGON (with holes), their MULTI forms and GEOMETRYCOLLECTION,
+// as written by lib/export.ts; null for anything else. NaN positions are left for validation to report.
+function parseWKT(wkt: string): Geometry | null {
+    const s = wkt.trim();
+    let i = 0;
+    const eat = (ch: string) => {
+        while (/\s/.test(s[i] ?? "")) i++;
+        if (s[i] !== ch) return false;
+        i++;
+        return true;
+    };
+    // "lng lat[ z]" up to the next comma or parenthesis
+    const position = (): Position | null => {
+        const text = /^[^,()]*/.exec(s.slice(i))![0];
+        i += text.length;
+        return text.trim() ? text.trim().split(/\s+/).slice(0, 2).map(Number) : null;
+    };
+    // "(item, item, ...)"
+    const list = <T>(item: () => T | null): T[] | null => {
+        if (!eat("(")) return null;
+        const out: T[] = [];
+        do {
+            const x = item();
+            if (x === null) return null;
+            out.push(x);
+        } while (eat(","));
+        return eat(")") ? out : null;
+    };
+    const lines = () => list(() => list(position));
+    // MULTIPOINT members are written both as "(1 2, 3 4)" and as "((1 2), (3 4))"
+    const member = () => {
+        const start = i;
+        if (!eat("(")) return position();
+        i = start;
+        const p = list(position);
+        return p?.length === 1 ? p[0] : null;
+    };
+    const geometry = (): Geometry | null => {
+        const type = /^\s*([a-z]+)/i.exec(s.slice(i));
+        if (!type) return null;
+        i += type[0].length;
+        switch (type[1].toUpperCase()) {
+            case "POINT": {
+                const p = list(position);
+                return p?.length === 1 ? { type: "Point", coordinates: p[0] } : null;
+            }
+            case "LINESTRING": {
+                const coordinates = list(position);
+                return coordinates && { type: "LineString", coordinates };
+            }
+            case "POLYGON": {
+                const coordinates = lines();
+                return coordinates && { type: "Polygon", coordinates };
+            }
+            case "MULTIPOINT": {
+                const coordinates = list(member);
+                return coordinates && { type: "MultiPoint", coordinates };
+            }
+            case "MULTILINESTRING": {
+                const coordinates = lines();
+                return coordinates && { type: "MultiLineString", coordinates };
+            }
+            case "MULTIPOLYGON": {
+                const coordinates = list(lines);
+                return coordinates && { type: "MultiPolygon", coordinates };
+            }
+            case "GEOMETRYCOLLECTION": {
+                const geometries = list(geometry);
+                return geometries && { type: "GeometryCollection", geometries };
+            }
+            default: return null;
+        }
+    };
+    const g = geometry();
+    return g && i === s.length ? g : null;
+}
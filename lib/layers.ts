@@ -0,0 +1,31 @@
+// lib/layers.ts
+// What the chat and the tools both know about the map: the view and user location the client sends along
+// with chat messages, and the names of the layers that tool results are drawn as.
+
+// detail of the "map-viewport-changed" event, sent along with chat messages for "near here" questions
+export type MapViewport = {
+    bbox: [number, number, number, number];   // [west, south, east, north]
+    center: { lat: number; lng: number };
+    zoom: number;
+};
+
+// detail of the "user-location-changed" event; only sent once the user turned on geolocation on the map
+export type UserLocation = { lat: number; lng: number; accuracy?: number };
+
+// default layer name for a tool call, based on what the model asked for (or what it found)
+export function layerName(toolType: string, input: any, output?: any): string {
+    if (toolType.includes("nominatimReverse")) return `Around ${input?.lat}, ${input?.lng}`;
+    if (toolType.includes("nominatimSearch")) return input?.query ?? "Search result";
+    if (toolType.includes("foursquareByPlace")) return `${input?.query ?? "Places"} near ${input?.place ?? (input?.around === "me" ? "me" : "here")}`;
+    // further pages are added to the layer of the first one
+    if (toolType.includes("showMore")) return output?.page?.name ?? "More results";
+    if (toolType.includes("planItinerary")) return `Itinerary from ${input?.start ?? "?"}`;
+    if (toolType.includes("comparePlaces")) return `${input?.query ?? "Places"}: ${(input?.places ?? []).join(" vs ")}`;
+    if (toolType.includes("placeDetails")) return output?.data?.features?.[0]?.properties?.name ?? `Place ${input?.fsqId ?? "?"}`;
+    if (toolType.includes("directions")) return `${input?.from ?? "?"} → ${input?.to ?? "?"}`;
+    if (toolType.includes("measureDistance")) return `Distance ${input?.from ?? "?"} – ${input?.to ?? "?"}`;
+    if (toolType.includes("measureArea")) return `Area of ${input?.feature ?? "?"}`;
+    if (toolType.includes("bufferFeature")) return `${input?.radiusMeters ?? "?"} m around ${input?.feature ?? "?"}`;
+    if (toolType.includes("pointInArea")) return `${input?.point ?? "?"} in ${input?.area ?? "?"}`;
+    return toolType.replace(/^tool-/, "");
+}
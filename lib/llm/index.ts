@@ -0,0 +1,73 @@
+// lib/llm/index.ts
+// Chat model selection, chosen per deployment:
+//   LLM_PROVIDER=openai (default)      OpenAI, OPENAI_API_KEY; LLM_BASE_URL optionally points at a proxy
+//   LLM_PROVIDER=openai-compatible     any server with an OpenAI-style /v1/chat/completions endpoint
+//                                      (Ollama, vLLM, llama.cpp, LM Studio ...) at LLM_BASE_URL, key in LLM_API_KEY
+//   LLM_PROVIDER=mock                  scripted offline model for demos, no network needed
+// LLM_MODEL picks the model (OPENAI_MODEL_NAME is still honoured), LLM_MAX_STEPS caps tool round trips per message.
+// The first chat checks whether the model can call tools, warns if not, and then chats without map tools.
+// NOTE: Use this ONLY on the server.
+
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { createMockModel } from "./mock";
+import { probeToolSupport } from "./openai-compatible";
+
+export type ChatModel = {
+    provider: string;
+    modelId: string;
+    model: Exclude<LanguageModel, string>;
+    maxSteps: number;
+};
+
+export type ToolSupport = { ok: true } | { ok: false; reason: string };
+
+const DEFAULT_MODEL = "gpt-4.1-nano";
+const DEFAULT_MAX_STEPS = 5;
+
+// OpenAI models that reject function calling
+const OPENAI_NO_TOOLS = /^(o1-mini|o1-preview|gpt-3\.5-turbo-instruct|davinci|babbage|text-|gpt-4o(-mini)?-search-preview)/;
+
+let chatModel: ChatModel | null = null;
+let toolSupport: Promise<ToolSupport> | null = null;
+
+export function getChatModel(): ChatModel {
+    if (chatModel) return chatModel;
+    const kind = (process.env.LLM_PROVIDER ?? "openai").toLowerCase();
+    const steps = Number(process.env.LLM_MAX_STEPS ?? DEFAULT_MAX_STEPS);
+    const maxSteps = Number.isInteger(steps) && steps > 0 ? steps : DEFAULT_MAX_STEPS;
+
+    if (kind === "mock") {
+        chatModel = { provider: "mock", modelId: "mapchat-mock", model: createMockModel(), maxSteps };
+    } else if (kind === "openai-compatible") {
+        const baseURL = process.env.LLM_BASE_URL;
+        const modelId = process.env.LLM_MODEL ?? process.env.OPENAI_MODEL_NAME;
+        if (!baseURL || !modelId) throw new Error("LLM_PROVIDER=openai-compatible needs LLM_BASE_URL and LLM_MODEL");
+        // self-hosted servers usually implement chat completions only, not the Responses API
+        const provider = createOpenAI({ name: "openai-compatible", baseURL, apiKey: process.env.LLM_API_KEY ?? "not-needed" });
+        chatModel = { provider: "openai-compatible", modelId, model: provider.chat(modelId), maxSteps };
+    } else {
+        if (kind !== "openai") console.warn(`LLM_PROVIDER: unknown provider "${kind}", using openai`);
+        const modelId = process.env.LLM_MODEL ?? process.env.OPENAI_MODEL_NAME ?? DEFAULT_MODEL;
+        const provider = createOpenAI({ baseURL: process.env.LLM_BASE_URL || undefined });
+        chatModel = { provider: "openai", modelId, model: provider(modelId), maxSteps };
+    }
+    return chatModel;
+}
+
+// Whether the configured model can call tools; checked once per process and logged when it cannot.
+export function getToolSupport(): Promise<ToolSupport> {
+    if (toolSupport) return toolSupport;
+    const { provider, modelId } = getChatModel();
+    toolSupport = (async (): Promise<ToolSupport> => {
+        if (provider === "mock") return { ok: true };
+        if (provider === "openai") {
+            return OPENAI_NO_TOOLS.test(modelId) ? { ok: false, reason: `${modelId} does not support tool calling` } : { ok: true };
+        }
+        return probeToolSupport(process.env.LLM_BASE_URL!, modelId, process.env.LLM_API_KEY);
+    })().then((support) => {
+        if (!support.ok) console.warn(`LLM ${provider}/${modelId}: ${support.reason}. MapChat will answer without its map tools.`);
+        return support;
+    });
+    return toolSupport;
+}
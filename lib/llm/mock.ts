@@ -0,0 +1,126 @@
+// lib/llm/mock.ts
+// A scripted, deterministic chat model for offline demos and screenshots (LLM_PROVIDER=mock).
+// It reads the last user message, picks one of the map tools with simple keyword rules, and after the
+// tool has run answers with a fixed summary of its result. Same input, same output, no network.
+
+import { simulateReadableStream, type LanguageModel } from "ai";
+import { parseCoordinate } from "../geo";
+
+type MockModel = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<MockModel["doStream"]>[0];
+type StreamPart = Awaited<ReturnType<MockModel["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never;
+
+type Turn = { tool: string; input: Record<string, unknown> } | { text: string };
+
+const CHUNK_DELAY_MS = 15;
+const USAGE = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+const HELP =
+    "I'm the offline demo model, so I only understand a few kinds of requests: \"Find Seoul Forest\", " +
+    "\"Coffee near Gangnam Station\", \"Compare ramen near Shibuya vs Shinjuku\", \"Directions from Gangnam Station to Seoul Forest by walking\" " +
+    "or \"What is here? (37.5, 127.0)\".";
+
+// ---------- Script ----------
+
+const PROFILES: Record<string, string> = { car: "driving", driving: "driving", walking: "walking", foot: "walking", bike: "cycling", cycling: "cycling" };
+
+// the tool call (or plain answer) for a user message
+function plan(text: string, tools: Set<string>): Turn {
+    const t = text.trim().replace(/[.?!]+$/, "");
+    const call = (tool: string, input: Record<string, unknown>): Turn => (tools.has(tool) ? { tool, input } : { text: HELP });
+
+    const fsqId = t.match(/fsq_id:\s*([\w-]+)/i);
+    if (fsqId && /^tell me about/i.test(t)) return call("placeDetails", { fsqId: fsqId[1] });
+
+    const here = t.match(/what is (?:here|at)\??\s*\(?\s*(-?\d+(?:\.\d+)?\s*,\s*-?\d+(?:\.\d+)?)\s*\)?/i);
+    const c = here && parseCoordinate(here[1]);
+    if (c) return call("nominatimReverse", c);
+
+    const route = t.match(/from (.+?) to (.+?)(?: by (car|driving|walking|foot|bike|cycling))?$/i);
+    if (route) return call("directions", { from: route[1], to: route[2], profile: PROFILES[route[3]?.toLowerCase() ?? "car"] });
+
+    const compare = t.match(/^compare (.+?) (?:options )?(?:near|around|in) (.+)$/i);
+    if (compare) {
+        const places = compare[2].split(/\s+(?:vs\.?|versus|and)\s+|\s*,\s*/i).filter(Boolean);
+        if (places.length >= 2) return call("comparePlaces", { query: compare[1], places: places.slice(0, 5) });
+    }
+
+    const near = t.match(/^(?:find |show |recommend |best )?(.+?) (?:near|around|in) (.+)$/i);
+    if (near) {
+        const [, query, place] = near;
+        if (/^(me|my location)$/i.test(place)) return call("foursquareByPlace", { query, around: "me" });
+        if (/^(here|this area|the map)$/i.test(place)) return call("foursquareByPlace", { query, around: "map" });
+        return call("foursquareByPlace", { query, place });
+    }
+
+    if (/^(?:show|give me) more(?: results| options| places)?$/i.test(t)) return call("showMore", {});
+
+    const find = t.match(/^(?:find|locate|show(?: me)?|where is|search for)\s+(.+)$/i);
+    if (find) return call("nominatimSearch", { query: find[1], limit: 5, polygon: true });
+
+    return { text: HELP };
+}
+
+// a fixed answer for the last tool result
+function answer(output: any): string {
+    if (output && output.ok === false) return `Sorry, that did not work: ${output.error}`;
+    if (output?.summary) return `${output.summary}.`;
+    // the model reads feature summaries (lib/tools/compact), not the FeatureCollection
+    const features: any[] = output?.features ?? output?.data?.features ?? [];
+    const count: number = output?.featureCount ?? features.length;
+    if (!count) return "I found nothing for that.";
+    const names = features.map((f) => f.name ?? f.properties?.name ?? f.properties?.display_name).filter(Boolean).slice(0, 3);
+    const found = count === 1 ? "1 result and put it" : `${count} results and put them`;
+    return `I found ${found} on the map` +
+        (names.length ? `, including ${names.join(", ")}.` : ".");
+}
+
+// decides the next turn from the prompt: answer a tool result that just came back, or plan a new call
+function nextTurn(options: CallOptions): Turn {
+    const last = options.prompt[options.prompt.length - 1];
+    if (last?.role === "tool") {
+        const result = last.content[last.content.length - 1];
+        const output = result?.output;
+        return { text: answer(output?.type === "json" ? output.value : output?.type === "error-text" ? { ok: false, error: output.value } : null) };
+    }
+    const userText = last?.role === "user"
+        ? last.content.map((p) => (p.type === "text" ? p.text : "")).join(" ")
+        : "";
+    const tools = new Set((options.tools ?? []).map((t) => t.name));
+    return plan(userText, tools);
+}
+
+// ---------- Model ----------
+
+export function createMockModel(): MockModel {
+    return {
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId: "mapchat-mock",
+        supportedUrls: {},
+
+        async doGenerate(options) {
+            const turn = nextTurn(options);
+            const id = `mock-${options.prompt.length}`;
+            return "tool" in turn
+                ? { content: [{ type: "tool-call", toolCallId: id, toolName: turn.tool, input: JSON.stringify(turn.input) }], finishReason: "tool-calls", usage: USAGE, warnings: [] }
+                : { content: [{ type: "text", text: turn.text }], finishReason: "stop", usage: USAGE, warnings: [] };
+        },
+
+        async doStream(options) {
+            const turn = nextTurn(options);
+            // ids only need to be unique within a conversation, and the prompt grows with every step
+            const id = `mock-${options.prompt.length}`;
+            const chunks: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+            if ("tool" in turn) {
+                chunks.push({ type: "tool-call", toolCallId: id, toolName: turn.tool, input: JSON.stringify(turn.input) });
+            } else {
+                chunks.push({ type: "text-start", id });
+                for (const word of turn.text.match(/\S+\s*/g) ?? []) chunks.push({ type: "text-delta", id, delta: word });
+                chunks.push({ type: "text-end", id });
+            }
+            chunks.push({ type: "finish", finishReason: "tool" in turn ? "tool-calls" : "stop", usage: USAGE });
+            return { stream: simulateReadableStream({ chunks, chunkDelayInMs: CHUNK_DELAY_MS }) };
+        },
+    };
+}
@@ -0,0 +1,37 @@
+// lib/llm/openai-compatible.ts
+// Capability check for OpenAI-compatible servers. There is no standard way to ask whether a model supports
+// tools, but servers that cannot do it reject a request that carries them (Ollama: "does not support tools",
+// vLLM without --enable-auto-tool-choice, llama.cpp without --jinja), so one tiny request tells.
+
+import type { ToolSupport } from "./index";
+
+const PROBE_TIMEOUT_MS = 15_000;
+
+export async function probeToolSupport(baseURL: string, modelId: string, apiKey?: string): Promise<ToolSupport> {
+    const url = `${baseURL.replace(/\/+$/, "")}/chat/completions`;
+    try {
+        const res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify({
+                model: modelId,
+                messages: [{ role: "user", content: "ping" }],
+                max_tokens: 1,
+                tools: [{ type: "function", function: { name: "noop", description: "Does nothing.", parameters: { type: "object", properties: {} } } }],
+                tool_choice: "auto",
+            }),
+            signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+        });
+        if (res.ok) return { ok: true };
+        const body = await res.text().catch(() => "");
+        // only a rejection that mentions tools says something about the model; anything else is left to the chat
+        if (res.status >= 400 && res.status < 500 && /tool/i.test(body)) {
+            return { ok: false, reason: `${modelId} rejected tool calls (${res.status}: ${body.slice(0, 200)})` };
+        }
+        console.warn(`LLM probe of ${url} returned ${res.status}; assuming ${modelId} supports tools`);
+        return { ok: true };
+    } catch (e: any) {
+        console.warn(`LLM probe of ${url} failed (${e?.message ?? e}); assuming ${modelId} supports tools`);
+        return { ok: true };
+    }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { codeForStatus, combineErrors, isToolError, statusError, toolError } from "./errors";
+
+describe("toolError", () => {
+    it("fills in whether to retry and a hint from the code", () => {
+        expect(toolError("not_found", "Could not locate Atlantis")).toEqual({
+            ok: false,
+            error: "Could not locate Atlantis",
+            code: "not_found",
+            retryable: false,
+            hint: "Try a different or more specific place name.",
+        });
+        expect(toolError("rate_limited", "Nominatim 429").retryable).toBe(true);
+    });
+
+    it("lets the caller override the defaults", () => {
+        const e = toolError("invalid_input", "Bad radius", { retryable: true, hint: "Use meters.", status: 400 });
+        expect(e).toMatchObject({ retryable: true, hint: "Use meters.", status: 400 });
+    });
+});
+
+describe("upstream answers", () => {
+    it.each([
+        [401, "missing_key"],
+        [403, "missing_key"],
+        [404, "not_found"],
+        [408, "timeout"],
+        [504, "timeout"],
+        [429, "rate_limited"],
+        [500, "upstream_down"],
+        [503, "upstream_down"],
+        [400, "invalid_input"],
+    ] as const)("maps HTTP %i to %s", (status, code) => {
+        expect(codeForStatus(status)).toBe(code);
+    });
+
+    it("names the service and keeps the status", () => {
+        expect(statusError("Nominatim", 429)).toMatchObject({ error: "Nominatim 429", code: "rate_limited", status: 429, retryable: true });
+    });
+});
+
+describe("isToolError", () => {
+    it("tells failed results from everything else", () => {
+        expect(isToolError(toolError("timeout", "Overpass timed out"))).toBe(true);
+        expect(isToolError({ ok: true, data: null })).toBe(false);
+        expect(isToolError(null)).toBe(false);
+        expect(isToolError("error")).toBe(false);
+    });
+});
+
+describe("combineErrors", () => {
+    it("joins the messages under the first code, retryable if any part is", () => {
+        const e = combineErrors([toolError("not_found", "Could not locate A"), statusError("Foursquare", 503)]);
+        expect(e).toMatchObject({ code: "not_found", error: "Could not locate A; Foursquare 503", retryable: true });
+        expect(combineErrors([toolError("not_found", "A"), toolError("invalid_input", "B")]).retryable).toBe(false);
+    });
+
+    it("reports nothing found when there were no parts", () => {
+        expect(combineErrors([])).toMatchObject({ ok: false, code: "not_found", error: "Nothing found" });
+    });
+});
@@ -0,0 +1,63 @@
+// lib/services/errors.ts
+// Typed tool errors: every failed ToolResult carries a code, whether retrying the same call can help,
+// and a hint for the user. The message (`error`) stays specific, e.g. "Nominatim 429" or "Could not locate …".
+
+export type ToolErrorCode = "not_found" | "rate_limited" | "upstream_down" | "missing_key" | "invalid_input" | "timeout" | "unauthorized";
+
+export type ToolError = {
+    ok: false;
+    error: string;
+    code: ToolErrorCode;
+    retryable: boolean;
+    hint: string;
+    status?: number;             // HTTP status of the upstream answer, when there was one
+};
+
+const DEFAULTS: Record<ToolErrorCode, { retryable: boolean; hint: string }> = {
+    not_found: { retryable: false, hint: "Try a different or more specific place name." },
+    rate_limited: { retryable: true, hint: "The service is busy, try again in a moment." },
+    upstream_down: { retryable: true, hint: "The map service is not reachable right now, try again later." },
+    missing_key: { retryable: false, hint: "An API key is missing or was rejected; the site owner has to configure it." },
+    invalid_input: { retryable: false, hint: "Rephrase the request, e.g. with other place names or options." },
+    timeout: { retryable: true, hint: "The service took too long to answer, try again." },
+    unauthorized: { retryable: false, hint: "Sign in to use MapChat." },
+};
+
+export function toolError(
+    code: ToolErrorCode,
+    error: string,
+    extra: { status?: number; retryable?: boolean; hint?: string } = {},
+): ToolError {
+    const { retryable = DEFAULTS[code].retryable, hint = DEFAULTS[code].hint, status } = extra;
+    return { ok: false, error, code, retryable, hint, ...(status === undefined ? {} : { status }) };
+}
+
+// error code of a failed upstream HTTP answer
+export function codeForStatus(status: number): ToolErrorCode {
+    if (status === 401 || status === 403) return "missing_key";
+    if (status === 404) return "not_found";
+    if (status === 408 || status === 504) return "timeout";
+    if (status === 429) return "rate_limited";
+    if (status >= 500) return "upstream_down";
+    return "invalid_input";
+}
+
+// e.g. "Nominatim 429" as rate_limited with status 429
+export function statusError(label: string, status: number): ToolError {
+    return toolError(codeForStatus(status), `${label} ${status}`, { status });
+}
+
+export function isToolError(x: unknown): x is ToolError {
+    return (x as { ok?: unknown } | null)?.ok === false;
+}
+
+// one error for several failed parts of a call (e.g. places of a comparison): the first one's code,
+// retryable when retrying could fix any of them; not_found when there were no parts
+export function combineErrors(errors: ToolError[]): ToolError {
+    if (!errors.length) return toolError("not_found", "Nothing found");
+    return {
+        ...errors[0],
+        error: errors.map((e) => e.error).join("; "),
+        retryable: errors.some((e) => e.retryable),
+    };
+}
@@ -0,0 +1,129 @@
+// lib/services/fixtures.ts
+// Record/replay of upstream responses, for demos and development without network or API keys:
+//   UPSTREAM_FIXTURES=record   calls upstreams as usual and saves every answer worth keeping under FIXTURE_DIR
+//   UPSTREAM_FIXTURES=replay   never calls upstreams; answers come from FIXTURE_DIR or fail with FixtureMissError
+// FIXTURE_DIR defaults to ./fixtures. Requests are matched by a normalised key (see fixtureKeyForUrl), and
+// API keys are replaced by placeholders before anything is written, so fixtures are safe to commit.
+// NOTE: Use this ONLY on the server.
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// ---------- Errors ----------
+export class FixtureMissError extends Error {
+    constructor(public service: string, public key: string) {
+        super(`No recorded ${service} response for this request (UPSTREAM_FIXTURES=replay)`);
+        this.name = "FixtureMissError";
+    }
+}
+
+// ---------- Config ----------
+export type FixtureMode = "off" | "record" | "replay";
+
+// env vars whose values must never end up in a fixture file
+const SECRETS = ["MAPTILER_API_KEY", "FOURSQUARE_API_KEY", "PELIAS_API_KEY", "OPENAI_API_KEY", "LLM_API_KEY"];
+// query parameters that carry credentials and are left out of request keys
+const SECRET_PARAMS = new Set(["key", "api_key", "apikey", "access_token", "token"]);
+
+export function fixtureMode(): FixtureMode {
+    const mode = (process.env.UPSTREAM_FIXTURES ?? "").toLowerCase();
+    if (mode === "record" || mode === "replay") return mode;
+    if (mode && mode !== "off") console.warn(`UPSTREAM_FIXTURES: unknown mode "${mode}", fixtures are off`);
+    return "off";
+}
+
+function fixtureDir(): string {
+    return process.env.FIXTURE_DIR ?? path.join(process.cwd(), "fixtures");
+}
+
+// ---------- Keys ----------
+
+// Normalises a request URL into a fixture key: credentials dropped, parameters sorted, text lowercased
+// with whitespace collapsed and coordinates rounded to ~10 m, so the same search from a slightly
+// different map position or with different casing replays the same answer.
+export function fixtureKeyForUrl(url: string, headers: Record<string, string> = {}): string {
+    const u = new URL(url);
+    const params = [...u.searchParams]
+        .filter(([k]) => !SECRET_PARAMS.has(k.toLowerCase()))
+        .map(([k, v]) => [k, normaliseValue(v)] as const)
+        .sort(([a], [b]) => a.localeCompare(b));
+    const lang = Object.entries(headers).find(([k]) => k.toLowerCase() === "accept-language")?.[1];
+    return JSON.stringify({ url: `${u.host}${u.pathname.replace(/\/+$/, "")}`, params, lang: lang?.toLowerCase() });
+}
+
+// numbers with decimals (alone or in lists such as a viewbox) are rounded to 4 places
+function normaliseValue(v: string): string {
+    return v.trim().toLowerCase().replace(/\s+/g, " ")
+        .replace(/-?\d+\.\d+/g, (n) => String(Number(Number(n).toFixed(4))));
+}
+
+// ---------- Storage ----------
+type FixtureFile<T> = { service: string; key: string; recordedAt: string; value: T };
+
+function fileFor(service: string, key: string): string {
+    // services are hosts for plain HTTP upstreams, e.g. "localhost:8080"
+    return path.join(fixtureDir(), service.replace(/[^\w.-]+/g, "_"), `${createHash("sha1").update(key).digest("hex").slice(0, 16)}.json`);
+}
+
+// API keys become ${NAME} placeholders on record and are put back (when configured) on replay
+function scrub(json: string): string {
+    let out = json;
+    for (const name of SECRETS) {
+        const secret = process.env[name];
+        if (secret && secret.length >= 8) out = out.split(secret).join(`\${${name}}`);
+    }
+    return out;
+}
+
+function unscrub(json: string): string {
+    return json.replace(/\$\{([A-Z_]+)\}/g, (m, name: string) => (SECRETS.includes(name) && process.env[name]) || m);
+}
+
+async function readFixture<T>(service: string, key: string): Promise<T | undefined> {
+    let raw: string;
+    try {
+        raw = await readFile(fileFor(service, key), "utf8");
+    } catch {
+        return; // not recorded
+    }
+    return (JSON.parse(unscrub(raw)) as FixtureFile<T>).value;
+}
+
+async function writeFixture<T>(service: string, key: string, value: T): Promise<void> {
+    const file = fileFor(service, key);
+    await mkdir(path.dirname(file), { recursive: true });
+    const entry: FixtureFile<T> = { service, key, recordedAt: new Date().toISOString(), value };
+    // write then rename so a replaying process never reads a half-written file
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tmp, scrub(JSON.stringify(entry, null, 2)), "utf8");
+    await rename(tmp, file);
+}
+
+// ---------- Public API ----------
+
+// Runs `load` through the fixture mode: as is when off, saving its result when recording (only when
+// `keep` accepts it, e.g. not a 429 or an outage), and from disk only when replaying.
+// `value` must be plain JSON.
+export async function withFixture<T>(
+    service: string,
+    key: string,
+    load: () => Promise<T>,
+    keep: (value: T) => boolean = () => true,
+): Promise<T> {
+    const mode = fixtureMode();
+    if (mode === "replay") {
+        const recorded = await readFixture<T>(service, key);
+        if (recorded === undefined) throw new FixtureMissError(service, key);
+        return recorded;
+    }
+    const value = await load();
+    if (mode === "record" && keep(value)) {
+        try {
+            await writeFixture(service, key, value);
+        } catch (e: any) {
+            console.warn(`Fixture ${service} write failed: ${e?.message ?? e}`);
+        }
+    }
+    return value;
+}
@@ -1,5 +1,10 @@
 import type { Feature, FeatureCollection } from "geojson";
 import fsqDevelopersPlaces from '@api/fsq-developers-places';
+import { createCache } from "../cache";
+import { upstreamError } from "./http";
+import { codeForStatus, toolError, type ToolError } from "./errors";
+import { scheduleRequest } from "./scheduler";
+import { fixtureMode, withFixture } from "./fixtures";
 
 // input for the function
 export type FsqSearchOpts = {
@@ -7,6 +12,8 @@ export type FsqSearchOpts = {
     query?: string;            // e.g. "restaurants", "coffee", "hotels"
     radiusMeters?: number;     // default 3000
     limit?: number;            // default 10 (max 50)
+    includeDetails?: boolean;  // request rating, price, hours, website, tel, popularity
+    cursor?: string;           // the next page of an earlier search with the same options
 };
 
 // usage in the API call
@@ -16,14 +23,68 @@ export type FsqParams = {
     limit?: number;
     'X-Places-Api-Version': '2025-06-17';
     query?: string;
+    fields?: string;
+    cursor?: string;
+}
+
+// fields requested from Place Search. Rating, price, hours, etc. are not part of the default response,
+// so they have to be asked for explicitly.
+const FSQ_BASE_FIELDS = ["fsq_place_id", "name", "latitude", "longitude", "location", "categories", "distance"];
+const FSQ_DETAIL_FIELDS = ["rating", "price", "hours", "website", "tel", "popularity", "stats"];
+
+// `cursor` is set when Place Search has a next page
+export type FsqSearchResult =
+    | { readonly ok: true; readonly data: any[]; readonly cursor?: string }
+    | ToolError;
+
+// one place with its tips and photos (photo URLs already sized)
+export type FsqPlaceResult =
+    | { readonly ok: true; readonly data: { place: any; tips: any[]; photos: string[] } }
+    | ToolError;
+
+const FSQ_HOST = "api.foursquare.com";
+
+// Opening hours and ratings drift, so search results are kept for an hour.
+// Auth problems, throttling and timeouts are not cached (fixed by configuration / the scheduler); outages only briefly.
+const MINUTE = 60 * 1000;
+const fsqTtl = (r: FsqSearchResult | FsqPlaceResult) => {
+    if (r.ok) return 60 * MINUTE;
+    if (r.status === 401 || r.status === 403 || r.status === 429 || r.code === "timeout") return 0;
+    if (r.status === undefined || r.status >= 500) return MINUTE;
+    return 5 * MINUTE;
+};
+const CACHE = createCache<FsqSearchResult>("foursquare", { ttl: fsqTtl });
+const PLACE_CACHE = createCache<FsqPlaceResult>("foursquare-place", { ttl: fsqTtl });
+const AUTOCOMPLETE_CACHE = createCache<FsqSearchResult>("foursquare-autocomplete", { ttl: fsqTtl });
+
+// answers worth recording as fixtures: not auth problems, throttling or outages
+const fsqKeep = (r: FsqSearchResult | FsqPlaceResult) =>
+    r.ok || (r.status !== undefined && r.status < 500 && r.status !== 401 && r.status !== 403 && r.status !== 429);
+
+// SDK errors carry the HTTP status; anything else is a network problem / timeout from the scheduler
+function fsqError(err: any) {
+    if (typeof err?.status === "number") return toolError(codeForStatus(err.status), err.message, { status: err.status });
+    return upstreamError(err);
+}
+
+// Place Search links its next page in the `Link: <...&cursor=...>; rel="next"` response header
+function nextCursor(headers: Headers | undefined): string | undefined {
+    const link = headers?.get("link")?.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+    if (!link) return;
+    try {
+        return new URL(link[1]).searchParams.get("cursor") ?? undefined;
+    } catch {
+        return;
+    }
 }
 
 // conducts a search on foursquare to find nearby locations to the search center based on the query (e.g. restaurants)
 export async function fsqSearch({
-                                    ll, query, radiusMeters = 3000, limit = 10,
-                                }: FsqSearchOpts) {
-    if (!process.env.FOURSQUARE_API_KEY) {
-        return { ok: false, error: "Missing FOURSQUARE_API_KEY" } as const;
+                                    ll, query, radiusMeters = 3000, limit = 10, includeDetails = false, cursor,
+                                }: FsqSearchOpts): Promise<FsqSearchResult> {
+    // replayed fixtures need no key
+    if (!process.env.FOURSQUARE_API_KEY && fixtureMode() !== "replay") {
+        return toolError("missing_key", "Missing FOURSQUARE_API_KEY");
     }
     const params: FsqParams = {
         ll: `${ll.lat}%2C${ll.lng}`,
@@ -32,13 +93,107 @@ export async function fsqSearch({
         'X-Places-Api-Version': '2025-06-17'
     }
     if (query) params["query"] = query;
+    if (includeDetails) params["fields"] = [...FSQ_BASE_FIELDS, ...FSQ_DETAIL_FIELDS].join(",");
+    if (cursor) params["cursor"] = cursor;
+
+    // ~1m precision is plenty to share results between nearby identical searches
+    const key = JSON.stringify({
+        ll: [Number(ll.lat.toFixed(5)), Number(ll.lng.toFixed(5))],
+        q: query?.trim().toLowerCase() ?? "",
+        r: params.radius,
+        limit: params.limit,
+        details: includeDetails,
+        ...(cursor ? { cursor } : {}),
+    });
+
+    return CACHE.wrap(key, () => withFixture("foursquare", key, () => {
+        fsqDevelopersPlaces.auth(process.env.FOURSQUARE_API_KEY!);
+        return scheduleRequest(FSQ_HOST, `search ${key}`, () => fsqDevelopersPlaces.placeSearch(params)).then(res => {
+            const next = nextCursor(res.headers);
+            return { ok: true, data: res.data.results ?? [], ...(next ? { cursor: next } : {}) } as const;
+        }).catch(fsqError);
+    }, fsqKeep).catch(fsqError));
+}
+
+// fields requested from Place Details on top of the search fields
+const FSQ_PLACE_FIELDS = ["description", "menu", "tastes", "social_media"];
+const PHOTO_SIZE = "300x300";
+
+// Fetches one place by its fsq_place_id with its top tips and photos. Tips and photos are extras:
+// when only they fail, the place is still returned without them.
+export async function fsqPlace(fsqId: string, { tips = 5, photos = 3 } = {}): Promise<FsqPlaceResult> {
+    if (!process.env.FOURSQUARE_API_KEY && fixtureMode() !== "replay") {
+        return toolError("missing_key", "Missing FOURSQUARE_API_KEY");
+    }
+    const version = '2025-06-17' as const;
+    const key = JSON.stringify({ id: fsqId, tips, photos });
+
+    return PLACE_CACHE.wrap(key, () => withFixture("foursquare-place", key, async (): Promise<FsqPlaceResult> => {
+        fsqDevelopersPlaces.auth(process.env.FOURSQUARE_API_KEY!);
+        const fields = [...FSQ_BASE_FIELDS.filter((f) => f !== "distance"), ...FSQ_DETAIL_FIELDS, ...FSQ_PLACE_FIELDS].join(",");
+        const [details, tipList, photoList] = await Promise.allSettled([
+            scheduleRequest(FSQ_HOST, `details ${fsqId}`, () =>
+                fsqDevelopersPlaces.placeDetails({ fsq_place_id: fsqId, fields, 'X-Places-Api-Version': version })),
+            tips > 0
+                ? scheduleRequest(FSQ_HOST, `tips ${fsqId} ${tips}`, () =>
+                    fsqDevelopersPlaces.placeTips({ fsq_place_id: fsqId, limit: tips, sort: "POPULAR", 'X-Places-Api-Version': version }))
+                : Promise.resolve(null),
+            photos > 0
+                ? scheduleRequest(FSQ_HOST, `photos ${fsqId} ${photos}`, () =>
+                    fsqDevelopersPlaces.placePhotos({ fsq_place_id: fsqId, limit: photos, sort: "POPULAR", 'X-Places-Api-Version': version }))
+                : Promise.resolve(null),
+        ]);
+        if (details.status === "rejected") return fsqError(details.reason);
+
+        const photoUrls = photoList.status === "fulfilled" && Array.isArray(photoList.value?.data)
+            ? photoList.value.data.map((p: any) => `${p.prefix}${PHOTO_SIZE}${p.suffix}`)
+            : [];
+        return {
+            ok: true,
+            data: {
+                place: details.value.data,
+                tips: tipList.status === "fulfilled" && Array.isArray(tipList.value?.data) ? tipList.value.data : [],
+                photos: photoUrls,
+            },
+        } as const;
+    }, fsqKeep).catch(fsqError));
+}
+
+// Suggestions for a partly typed place name, biased towards `ll` when given (places and geographic areas,
+// not query suggestions). Each result has `type` "place" or "geo" with the matching object.
+export async function fsqAutocomplete({ query, ll, radiusMeters, limit = 5 }: {
+    query: string;
+    ll?: { lat: number; lng: number };
+    radiusMeters?: number;
+    limit?: number;
+}): Promise<FsqSearchResult> {
+    if (!process.env.FOURSQUARE_API_KEY && fixtureMode() !== "replay") {
+        return toolError("missing_key", "Missing FOURSQUARE_API_KEY");
+    }
+    // Foursquare needs at least 3 characters
+    if (query.trim().length < 3) return { ok: true, data: [] } as const;
+    const params = {
+        query: query.trim(),
+        types: "place,geo",
+        limit: Math.min(Math.max(limit, 1), 50),
+        'X-Places-Api-Version': '2025-06-17' as const,
+        ...(ll ? { ll: `${ll.lat},${ll.lng}` } : {}),
+        ...(ll && radiusMeters ? { radius: Math.round(Math.min(radiusMeters, 100_000)) } : {}),
+    };
+    // ~100m precision: suggestions barely change with small pans of the map
+    const key = JSON.stringify({
+        q: params.query.toLowerCase(),
+        ll: ll ? [Number(ll.lat.toFixed(3)), Number(ll.lng.toFixed(3))] : null,
+        r: params.radius ?? null,
+        limit: params.limit,
+    });
 
-    fsqDevelopersPlaces.auth(process.env.FOURSQUARE_API_KEY);
-    return fsqDevelopersPlaces.placeSearch(params).then(res => {
-        return { ok: true, data: res.data.results } as const;
-    }).catch(err => {
-        return { ok: false, error: err.message } as const;
-    })
+    return AUTOCOMPLETE_CACHE.wrap(key, () => withFixture("foursquare-autocomplete", key, () => {
+        fsqDevelopersPlaces.auth(process.env.FOURSQUARE_API_KEY!);
+        return scheduleRequest(FSQ_HOST, `autocomplete ${key}`, () => fsqDevelopersPlaces.autocomplete(params)).then(res => {
+            return { ok: true, data: res.data.results ?? [] } as const;
+        }).catch(fsqError);
+    }, fsqKeep).catch(fsqError));
 }
 
 // Convert FSQ search to GeoJSON Point features
@@ -53,11 +208,20 @@ export function fsqResultsToGeoJSON(results: any[]): FeatureCollection {
             type: "Feature",
             properties: {
                 source: "foursquare",
-                fsq_id: r.fsq_id,
+                fsq_id: r.fsq_place_id ?? r.fsq_id,
                 name: r.name,
-                address: r.location.address,
+                address: r.location?.address,
                 categories: (r.categories ?? []).map((c: any) => c.name),
                 distance: r.distance,           // meters (present when search is ll/radius)
+                // the following are only present when details were requested
+                rating: r.rating,               // 0..10
+                total_ratings: r.stats?.total_ratings,
+                price: r.price,                 // 1 (cheap) .. 4 (very expensive)
+                hours: r.hours?.display,
+                open_now: r.hours?.open_now,
+                website: r.website,
+                tel: r.tel,
+                popularity: r.popularity,       // 0..1
             },
             geometry: { type: "Point", coordinates: [lng, lat] },
         });
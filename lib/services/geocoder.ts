@@ -0,0 +1,131 @@
+// lib/services/geocoder.ts
+// Geocoder provider interface + fallback chain + shared cache.
+// Providers are chosen per deployment with GEOCODER_PROVIDERS, a comma separated list tried in order, e.g.
+//   GEOCODER_PROVIDERS="nominatim@http://localhost:8080,nominatim,photon"
+// Each entry is `nominatim`, `photon` or `pelias`, optionally followed by `@<base URL>` for a self-hosted instance.
+// NOTE: Use this ONLY on the server.
+
+import {
+    createNominatimProvider,
+    type NominatimReverseArgs,
+    type NominatimSearchArgs,
+    type ToolResult,
+} from "./nominatim";
+import { createPhotonProvider } from "./photon";
+import { createPeliasProvider } from "./pelias";
+import { toolError } from "./errors";
+import { createCache } from "../cache";
+
+// ---------- Types ----------
+export type GeocodeSearchArgs = NominatimSearchArgs;
+export type GeocodeReverseArgs = NominatimReverseArgs;
+
+// Every provider returns the same ToolResult contract: a FeatureCollection whose features carry
+// display_name, category, type, importance, address (and address_hierarchy for reverse lookups).
+export interface GeocoderProvider {
+    name: string;
+    search(args: GeocodeSearchArgs): Promise<ToolResult>;
+    reverse(args: GeocodeReverseArgs): Promise<ToolResult>;
+}
+
+// ---------- Provider chain ----------
+let chain: GeocoderProvider[] | null = null;
+
+// Parses GEOCODER_PROVIDERS once; unknown entries are skipped with a warning.
+function providers(): GeocoderProvider[] {
+    if (chain) return chain;
+    const spec = process.env.GEOCODER_PROVIDERS ?? "nominatim";
+    const parsed: GeocoderProvider[] = [];
+    for (const entry of spec.split(",").map((s) => s.trim()).filter(Boolean)) {
+        const at = entry.indexOf("@");
+        const kind = (at === -1 ? entry : entry.slice(0, at)).toLowerCase();
+        const baseUrl = at === -1 ? undefined : entry.slice(at + 1);
+        if (kind === "nominatim") parsed.push(createNominatimProvider(baseUrl));
+        else if (kind === "photon") parsed.push(createPhotonProvider(baseUrl));
+        else if (kind === "pelias" && baseUrl) parsed.push(createPeliasProvider(baseUrl));
+        else console.warn(`GEOCODER_PROVIDERS: ignoring "${entry}"`);
+    }
+    chain = parsed.length ? parsed : [createNominatimProvider()];
+    return chain;
+}
+
+// Tries each provider in order and returns the first success; falls back to the next one on any error.
+async function withFallback(run: (p: GeocoderProvider) => Promise<ToolResult>): Promise<ToolResult> {
+    let last: ToolResult = toolError("invalid_input", "No geocoder provider configured", { hint: "Set GEOCODER_PROVIDERS on the server." });
+    for (const p of providers()) {
+        last = await run(p);
+        if (last.ok) return last;
+        console.warn(`Geocoder ${p.name} failed: ${last.error}`);
+    }
+    return last;
+}
+
+// ---------- Cache ----------
+const MINUTE = 60 * 1000;
+// Geocodes rarely change, and Nominatim's usage policy asks clients to cache them.
+// Bad requests are remembered a little longer than upstream hiccups, which are worth retrying soon.
+// Throttling and timeouts are never cached: the scheduler already backs off, and the next call (or a retry
+// from the chat) may well get through.
+const CACHE = createCache<ToolResult>("geocoder", {
+    ttl: (r) => {
+        if (r.ok) return 24 * 60 * MINUTE;
+        if (r.status === 429 || r.code === "timeout") return 0;
+        if (r.status === undefined || r.status >= 500) return 2 * MINUTE;
+        return 10 * MINUTE;
+    },
+});
+
+// Convert search arguments into a cache key.
+function cacheKey(args: GeocodeSearchArgs) {
+    // avoid unstable ordering by building a stable object
+    const keyObj = {
+        q: args.query.trim().toLowerCase(),
+        limit: args.limit ?? 5,
+        cc: args.countrycodes ?? "",
+        poly: args.polygon !== false, // default true
+        lang: args.language ?? "",
+        near: args.near
+            ? {
+                lat: Number(args.near.lat.toFixed(4)),
+                lng: Number(args.near.lng.toFixed(4)),
+                r: args.near.radiusKm ? Math.round(args.near.radiusKm * 10) / 10 : 2,
+            }
+            : null,
+        bounded: !!(args.near && args.bounded),
+    };
+    return JSON.stringify(keyObj);
+}
+
+// ---------- Public API ----------
+
+// Forward geocoding through the configured providers.
+export async function geocodeSearch(args: GeocodeSearchArgs): Promise<ToolResult> {
+    if (!args.query || args.query.trim().length < 2) {
+        return toolError("invalid_input", "Query too short");
+    }
+    return CACHE.wrap(cacheKey(args), () => withFallback((p) => p.search(args)));
+}
+
+// Reverse geocoding through the configured providers: the containing place plus the queried point.
+export async function geocodeReverse(args: GeocodeReverseArgs): Promise<ToolResult> {
+    const { lat, lng } = args;
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return toolError("invalid_input", "Invalid coordinate");
+    }
+
+    const key = JSON.stringify({
+        rev: [Number(lat.toFixed(5)), Number(lng.toFixed(5))],
+        zoom: args.zoom ?? 14,
+        lang: args.language ?? "",
+    });
+    return CACHE.wrap(key, async () => {
+        const out = await withFallback((p) => p.reverse(args));
+        if (!out.ok) return out;
+        out.data.features.push({
+            type: "Feature",
+            properties: { display_name: out.data.features[0]?.properties?.display_name, category: "query-point" },
+            geometry: { type: "Point", coordinates: [lng, lat] },
+        });
+        return out;
+    });
+}
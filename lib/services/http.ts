@@ -0,0 +1,57 @@
+// lib/services/http.ts
+// Shared JSON GET helper for upstream providers, so every service reports failures the same way.
+// All requests go through ./scheduler to respect upstream usage policies, and through ./fixtures
+// so they can be recorded and replayed offline.
+// NOTE: Use this ONLY on the server.
+
+import { RateLimitedError, scheduleRequest, UpstreamTimeoutError } from "./scheduler";
+import { FixtureMissError, fixtureKeyForUrl, withFixture } from "./fixtures";
+import { statusError, toolError, type ToolError } from "./errors";
+
+// GETs a JSON document through the upstream scheduler (rate limits, dedupe, backoff, timeout);
+// `label` names the upstream in error messages (e.g. "Nominatim 429")
+export async function getJson(
+    url: string,
+    label: string,
+    headers: Record<string, string> = {},
+): Promise<{ ok: true; json: any } | ToolError> {
+    // Respect upstream usage policies: set a real UA with contact info.
+    const ua = process.env.APP_USER_AGENT ?? "MapChat/1.0";
+    const allHeaders = { "User-Agent": ua, ...headers };
+
+    let got: { status: number; json?: any };
+    try {
+        // throttled answers and outages are not recorded, so a later recording run can fill them in
+        got = await withFixture(new URL(url).host, fixtureKeyForUrl(url, headers), async () => {
+            const res = await scheduleRequest(new URL(url).host, `GET ${url} ${JSON.stringify(headers)}`, async (signal) => {
+                const resp = await fetch(url, { headers: allHeaders, signal });
+                if (!resp.ok) return { status: resp.status, headers: resp.headers };
+                try {
+                    return { status: resp.status, headers: resp.headers, json: await resp.json() };
+                } catch {
+                    return { status: resp.status, headers: resp.headers, json: undefined };
+                }
+            });
+            return { status: res.status, json: res.json };
+        }, (g) => g.status !== 429 && g.status < 500);
+    } catch (e: any) {
+        return upstreamError(e);
+    }
+
+    if (got.status < 200 || got.status >= 300) {
+        return statusError(label, got.status);
+    }
+    if (got.json === undefined) {
+        return toolError("upstream_down", `${label} returned invalid JSON`, { status: got.status });
+    }
+    return { ok: true, json: got.json };
+}
+
+// converts errors thrown around an upstream call (scheduler or network) into a ToolError
+export function upstreamError(e: any): ToolError {
+    if (e instanceof RateLimitedError) return toolError("rate_limited", e.message, { status: 429 });
+    if (e instanceof UpstreamTimeoutError) return toolError("timeout", e.message);
+    // replaying again cannot help; the request has to be recorded first
+    if (e instanceof FixtureMissError) return toolError("upstream_down", e.message, { retryable: false, hint: "Record this request first (UPSTREAM_FIXTURES=record)." });
+    return toolError("upstream_down", `Network error: ${e?.message ?? e}`);
+}
@@ -1,9 +1,13 @@
 // lib/services/nominatim.ts
-// Minimal Nominatim search service with optional bias + tiny TTL cache.
+// Nominatim geocoder provider (search + reverse) with optional bias.
+// Works against the public instance or a self-hosted one; caching and provider fallback live in ./geocoder.
 // NOTE: Use this ONLY on the server. Some platforms strip custom headers in Edge;
 // prefer route handlers with `export const runtime = 'nodejs'` when you need User-Agent.
 
 import type { FeatureCollection, Geometry } from "geojson";
+import type { GeocoderProvider } from "./geocoder";
+import { getJson } from "./http";
+import { toolError, type ToolError } from "./errors";
 
 // ---------- Types ----------
 export type NominatimSearchArgs = {
@@ -17,66 +21,52 @@ export type NominatimSearchArgs = {
         lng: number;
         radiusKm?: number;         // default ~2km
     };
+    bounded?: boolean;           // only results inside the `near` box (otherwise it only ranks them)
 };
 
+export type NominatimReverseArgs = {
+    lat: number;
+    lng: number;
+    zoom?: number;               // 3 (country) .. 18 (building); default 14 (suburb/neighbourhood)
+    language?: string;           // Accept-Language header (e.g., "en", "ko")
+};
+
+// `source: "nominatim"` marks a geocoding result, whichever geocoder provider produced it
 export type ToolResult =
-    | { ok: true; data: FeatureCollection, source: "nominatim" | "fsq" }
-    | { ok: false; error: string; status?: number };
-
-// ---------- Small TTL cache (in-memory) ----------
-type CacheEntry = { value: ToolResult; expires: number };
-const CACHE = new Map<string, CacheEntry>();
-const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
-const CACHE_MAX = 300;
-
-// Convert search arguments into a cache key.
-function cacheKey(args: NominatimSearchArgs) {
-    // avoid unstable ordering by building a stable object
-    const keyObj = {
-        q: args.query.trim().toLowerCase(),
-        limit: args.limit ?? 5,
-        cc: args.countrycodes ?? "",
-        poly: args.polygon !== false, // default true
-        lang: args.language ?? "",
-        near: args.near
-            ? {
-                lat: Number(args.near.lat.toFixed(4)),
-                lng: Number(args.near.lng.toFixed(4)),
-                r: args.near.radiusKm ? Math.round(args.near.radiusKm * 10) / 10 : 2,
-            }
-            : null,
+    | { ok: true; data: FeatureCollection, source: "nominatim" | "fsq" | "route" | "analysis"; summary?: string }
+    | ToolError;
+
+export const NOMINATIM_PUBLIC_URL = "https://nominatim.openstreetmap.org";
+
+// Creates a Nominatim provider; pass the base URL of a self-hosted instance to use your own server.
+export function createNominatimProvider(baseUrl: string = NOMINATIM_PUBLIC_URL): GeocoderProvider {
+    const base = baseUrl.replace(/\/+$/, "");
+    return {
+        name: base === NOMINATIM_PUBLIC_URL ? "nominatim" : `nominatim@${base}`,
+        search: (args) => runNominatimSearch(args, base),
+        reverse: (args) => nominatimReverse(args, base),
     };
-    return JSON.stringify(keyObj);
-}
-
-// Retrieve from the cache based on the key.
-function cacheGet(k: string): ToolResult | undefined {
-    const hit = CACHE.get(k);
-    if (!hit) return;
-    // enforce deletion of cache if date is passed
-    if (Date.now() > hit.expires) {
-        CACHE.delete(k);
-        return;
-    }
-    return hit.value;
 }
 
-// Adds the key-value pair to the cache. TTL is defaulted to 10 minutes.
-function cacheSet(k: string, v: ToolResult, ttl = CACHE_TTL_MS) {
-    if (CACHE.size >= CACHE_MAX) {
-        const first = CACHE.keys().next().value;
-        if (first) CACHE.delete(first);
-    }
-    CACHE.set(k, { value: v, expires: Date.now() + ttl });
+// Bias box of roughly `radiusKm` around a center, in degrees.
+export function nearToBBox(near: NonNullable<NominatimSearchArgs["near"]>) {
+    const rKm = near.radiusKm ?? 2;
+    const dLat = rKm / 111.0; // ~111 km per degree latitude
+    const cos = Math.cos((near.lat * Math.PI) / 180);
+    const dLng = cos === 0 ? dLat : rKm / (111.0 * Math.max(cos, 0.0001));
+    return {
+        left: near.lng - dLng,
+        right: near.lng + dLng,
+        top: near.lat + dLat,
+        bottom: near.lat - dLat,
+    };
 }
 
 // helper to run the search on nominatin
-export async function runNominatimSearch(args: NominatimSearchArgs): Promise<ToolResult> {
-    const key = cacheKey(args);
-    const cached = cacheGet(key);
-    // use cache if possible
-    if (cached) return cached;
-
+export async function runNominatimSearch(
+    args: NominatimSearchArgs,
+    baseUrl: string = NOMINATIM_PUBLIC_URL,
+): Promise<ToolResult> {
     const {
         query,
         limit = 5,
@@ -84,14 +74,9 @@ export async function runNominatimSearch(args: NominatimSearchArgs): Promise<Too
         polygon = true,
         language,
         near,
+        bounded,
     } = args;
 
-    if (!query || query.trim().length < 2) {
-        const res: ToolResult = { ok: false, error: "Query too short" };
-        cacheSet(key, res);
-        return res;
-    }
-
     const params = new URLSearchParams({
         q: query,
         format: "jsonv2",
@@ -102,50 +87,59 @@ export async function runNominatimSearch(args: NominatimSearchArgs): Promise<Too
     if (polygon) params.set("polygon_geojson", "1");
     if (countrycodes) params.set("countrycodes", countrycodes);
 
-    // Optional bias: create a small viewbox around the provided center
+    // Optional bias: create a small viewbox around the provided center (a hard filter only when bounded)
     if (near) {
-        const rKm = near.radiusKm ?? 2;
-        const dLat = rKm / 111.0; // ~111 km per degree latitude
-        const cos = Math.cos((near.lat * Math.PI) / 180);
-        const dLng = cos === 0 ? dLat : rKm / (111.0 * Math.max(cos, 0.0001));
-        const left = (near.lng - dLng).toFixed(6);
-        const right = (near.lng + dLng).toFixed(6);
-        const top = (near.lat + dLat).toFixed(6);
-        const bottom = (near.lat - dLat).toFixed(6);
-        params.set("viewbox", `${left},${top},${right},${bottom}`);
-        params.set("bounded", "1");
+        const { left, top, right, bottom } = nearToBBox(near);
+        params.set("viewbox", [left, top, right, bottom].map((v) => v.toFixed(6)).join(","));
+        if (bounded) params.set("bounded", "1");
     }
 
-    const url = `https://nominatim.openstreetmap.org/search?${params.toString()}`;
+    const got = await getJson(`${baseUrl}/search?${params.toString()}`, "Nominatim", acceptLanguage(language));
+    if (!got.ok) return got;
+
+    const rows = got.json as any[];
+    const fc: FeatureCollection = toFeatureCollection(Array.isArray(rows) ? rows : []);
 
-    // Respect Nominatim usage policy: set a real UA with contact info.
-    const ua = process.env.APP_USER_AGENT ?? "MapChat/1.0";
+    return { ok: true, data: fc, source: "nominatim" };
+}
 
-    const headers: Record<string, string> = { "User-Agent": ua };
-    if (language) headers["Accept-Language"] = language;
+// helper to run a reverse lookup on nominatim: the object containing the coordinate at the given zoom level,
+// with its boundary polygon (when it has one) and the address hierarchy
+export async function nominatimReverse(
+    args: NominatimReverseArgs,
+    baseUrl: string = NOMINATIM_PUBLIC_URL,
+): Promise<ToolResult> {
+    const { lat, lng, zoom = 14, language } = args;
 
-    let resp: Response;
-    // for errors, still cache but lower TTL in case the network error was a one-time thing
-    try {
-        resp = await fetch(url, { headers });
-    } catch (e: any) {
-        const res: ToolResult = { ok: false, error: `Network error: ${e?.message ?? e}` };
-        cacheSet(key, res, 2 * 60 * 1000);
-        return res;
-    }
+    const params = new URLSearchParams({
+        lat: String(lat),
+        lon: String(lng),
+        format: "jsonv2",
+        addressdetails: "1",
+        polygon_geojson: "1",
+        zoom: String(Math.min(Math.max(Math.round(zoom), 3), 18)),
+    });
+
+    const got = await getJson(`${baseUrl}/reverse?${params.toString()}`, "Nominatim", acceptLanguage(language));
+    if (!got.ok) return got;
 
-    if (!resp.ok) {
-        const res: ToolResult = { ok: false, error: `Nominatim ${resp.status}`, status: resp.status };
-        cacheSet(key, res, 2 * 60 * 1000);
-        return res;
+    const row = got.json;
+    // nominatim answers 200 with an error body when nothing is found (e.g. in the middle of the ocean)
+    if (!row || row.error) {
+        return toolError("not_found", `Nothing found at ${lat.toFixed(5)}, ${lng.toFixed(5)}`);
     }
 
-    const rows = (await resp.json()) as any[];
-    const fc: FeatureCollection = toFeatureCollection(Array.isArray(rows) ? rows : []);
+    const fc = toFeatureCollection([row]);
+    // most specific first, e.g. road -> suburb -> city -> country
+    fc.features[0].properties!.address_hierarchy = Object.entries(row.address ?? {})
+        .filter(([level]) => !level.startsWith("ISO3166") && level !== "postcode" && level !== "country_code")
+        .map(([level, name]) => ({ level, name }));
 
-    const out: ToolResult = { ok: true, data: fc, source: "nominatim" };
-    cacheSet(key, out);
-    return out;
+    return { ok: true, data: fc, source: "nominatim" };
+}
+
+function acceptLanguage(language?: string): Record<string, string> {
+    return language ? { "Accept-Language": language } : {};
 }
 
 // converts list of (hopefully) features to feature collection
@@ -161,10 +155,12 @@ export function toFeatureCollection(items: any[]): FeatureCollection {
         return {
             type: "Feature" as const,
             properties: {
+                provider: "nominatim",
                 display_name: it.display_name,
                 category: it.category,
                 type: it.type,
                 importance: it.importance,
+                address: it.address,
                 osm_type: it.osm_type,
                 osm_id: it.osm_id,
             },
@@ -173,4 +169,4 @@ export function toFeatureCollection(items: any[]): FeatureCollection {
     });
 
     return { type: "FeatureCollection", features };
-}
\ No newline at end of file
+}
@@ -0,0 +1,155 @@
+// lib/services/osrm.ts
+// Minimal routing service against an OSRM-compatible HTTP API (/route/v1 and /table/v1).
+// The base URL is configurable through OSRM_BASE_URL so a local OSRM (or a stub) can stand in for the public demo server.
+
+import type { Feature, FeatureCollection, LineString } from "geojson";
+import type { ToolResult } from "../tools/types";
+import { getJson } from "./http";
+import { toolError, type ToolError } from "./errors";
+import { createCache } from "../cache";
+
+// ---------- Types ----------
+export type RouteProfile = "driving" | "walking" | "cycling";
+
+export type OsrmRouteArgs = {
+    from: { lat: number; lng: number };
+    to: { lat: number; lng: number };
+    profile?: RouteProfile;      // default "driving"
+};
+
+export type LatLng = { lat: number; lng: number };
+
+// travel matrices between points, [from][to]; null where OSRM found no route
+export type TravelMatrix = { durations: (number | null)[][]; distances: (number | null)[][] };
+
+export type RouteStep = {
+    instruction: string;         // e.g. "Turn left onto Orchard Road"
+    distance: number;            // meters
+    duration: number;            // seconds
+};
+
+// the public demo server only hosts the car profile, so walking/cycling need your own OSRM instance
+const DEFAULT_OSRM_BASE_URL = "https://router.project-osrm.org";
+
+// Road networks change slowly; "no route" answers are stable too, while upstream errors are retried soon.
+const MINUTE = 60 * 1000;
+const osrmTtl = (r: { ok: true } | ToolError) => {
+    if (r.ok) return 6 * 60 * MINUTE;
+    if (r.status === 429 || r.code === "timeout") return 0;
+    if (r.code === "not_found" || (r.status && r.status < 500 && r.status !== 429)) return 10 * MINUTE;
+    return MINUTE;
+};
+const CACHE = createCache<ToolResult>("osrm", { ttl: osrmTtl });
+const TABLE_CACHE = createCache<{ ok: true; data: TravelMatrix } | ToolError>("osrm-table", { ttl: osrmTtl });
+
+const coordKey = (points: LatLng[]) => points.flatMap((p) => [p.lat, p.lng]).map((v) => Number(v.toFixed(5)));
+const osrmBase = () => (process.env.OSRM_BASE_URL ?? DEFAULT_OSRM_BASE_URL).replace(/\/+$/, "");
+
+// calls OSRM for a route between two coordinates and returns it as a LineString feature
+export async function osrmRoute({ from, to, profile = "driving" }: OsrmRouteArgs): Promise<ToolResult> {
+    return osrmRouteVia([from, to], profile);
+}
+
+// route through several points in the given order; the LineString carries one entry per leg in `legs`
+export async function osrmRouteVia(points: LatLng[], profile: RouteProfile = "driving"): Promise<ToolResult> {
+    const key = JSON.stringify({ p: profile, c: coordKey(points) });
+    return CACHE.wrap(key, () => fetchRoute(points, profile));
+}
+
+// durations (s) and distances (m) between every pair of points, for ordering stops
+export async function osrmTable(points: LatLng[], profile: RouteProfile = "driving"): Promise<{ ok: true; data: TravelMatrix } | ToolError> {
+    const key = JSON.stringify({ p: profile, c: coordKey(points) });
+    return TABLE_CACHE.wrap(key, async () => {
+        const coords = points.map((p) => `${p.lng},${p.lat}`).join(";");
+        const got = await getJson(`${osrmBase()}/table/v1/${profile}/${coords}?annotations=duration,distance`, "OSRM");
+        if (!got.ok) return got;
+        const body = got.json;
+        if (body?.code !== "Ok" || !Array.isArray(body.durations)) {
+            return toolError("not_found", `No route found (${body?.code ?? "unknown"})`, { hint: "The places may not be connected by roads or paths for this travel mode." });
+        }
+        // older OSRM versions only return durations
+        return { ok: true, data: { durations: body.durations, distances: body.distances ?? body.durations.map((r: unknown[]) => r.map(() => null)) } };
+    });
+}
+
+async function fetchRoute(points: LatLng[], profile: RouteProfile): Promise<ToolResult> {
+    const base = osrmBase();
+    const coords = points.map((p) => `${p.lng},${p.lat}`).join(";");
+    const params = new URLSearchParams({
+        overview: "full",
+        geometries: "geojson",
+        steps: "true",
+    });
+    const url = `${base}/route/v1/${profile}/${coords}?${params.toString()}`;
+
+    const got = await getJson(url, "OSRM");
+    if (!got.ok) return got;
+
+    const body = got.json;
+    // OSRM reports "no route" etc. through `code` rather than the HTTP status in some cases
+    if (body?.code !== "Ok" || !body.routes?.length) {
+        return toolError("not_found", `No route found (${body?.code ?? "unknown"})`, { hint: "The places may not be connected by roads or paths for this travel mode." });
+    }
+
+    const route = body.routes[0];
+    const steps: RouteStep[] = [];
+    for (const leg of route.legs ?? []) {
+        for (const st of leg.steps ?? []) {
+            steps.push({
+                instruction: stepInstruction(st),
+                distance: Math.round(st.distance),
+                duration: Math.round(st.duration),
+            });
+        }
+    }
+
+    const line: Feature<LineString> = {
+        type: "Feature",
+        properties: {
+            source: "route",
+            profile,
+            distance: Math.round(route.distance),    // meters
+            duration: Math.round(route.duration),    // seconds
+            steps,
+            legs: (route.legs ?? []).map((l: any) => ({ distance: Math.round(l.distance), duration: Math.round(l.duration) })),
+        },
+        geometry: route.geometry as LineString,
+    };
+    const fc: FeatureCollection = { type: "FeatureCollection", features: [line] };
+    return { ok: true, data: fc, source: "route" };
+}
+
+// builds a human-readable instruction from an OSRM step maneuver
+function stepInstruction(step: any): string {
+    const type: string = step?.maneuver?.type ?? "continue";
+    const modifier: string | undefined = step?.maneuver?.modifier;
+    const name: string = step?.name || step?.ref || "";
+    const onto = name ? ` onto ${name}` : "";
+    const dir = modifier ? ` ${modifier}` : "";
+
+    switch (type) {
+        case "depart":
+            return `Head out${name ? ` on ${name}` : ""}`;
+        case "arrive":
+            return "Arrive at your destination";
+        case "turn":
+        case "end of road":
+            return `Turn${dir}${onto}`;
+        case "new name":
+        case "continue":
+            return `Continue${dir === " straight" ? "" : dir}${onto}`;
+        case "merge":
+            return `Merge${dir}${onto}`;
+        case "on ramp":
+            return `Take the ramp${dir}${onto}`;
+        case "off ramp":
+            return `Take the exit${dir}${onto}`;
+        case "fork":
+            return `Keep${dir} at the fork${onto}`;
+        case "roundabout":
+        case "rotary":
+            return `Enter the roundabout and take exit ${step?.maneuver?.exit ?? 1}${onto}`;
+        default:
+            return `${type.charAt(0).toUpperCase()}${type.slice(1)}${dir}${onto}`;
+    }
+}
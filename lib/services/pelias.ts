@@ -0,0 +1,100 @@
+// lib/services/pelias.ts
+// Pelias geocoder provider (self-hosted, or a hosted service such as geocode.earth with PELIAS_API_KEY).
+// Pelias returns points only, so results never carry polygons.
+// NOTE: Use this ONLY on the server.
+
+import type { Feature, FeatureCollection } from "geojson";
+import type { GeocoderProvider } from "./geocoder";
+import { getJson } from "./http";
+import { toolError } from "./errors";
+import { nearToBBox, type NominatimReverseArgs, type NominatimSearchArgs, type ToolResult } from "./nominatim";
+
+// address levels reported by Pelias, most specific first
+const PELIAS_LEVELS = ["street", "neighbourhood", "borough", "locality", "county", "region", "country"] as const;
+
+// Creates a Pelias provider. There is no public default instance, so the base URL is required.
+export function createPeliasProvider(baseUrl: string, apiKey = process.env.PELIAS_API_KEY): GeocoderProvider {
+    const base = baseUrl.replace(/\/+$/, "");
+    return {
+        name: `pelias@${base}`,
+        search: (args) => peliasSearch(args, base, apiKey),
+        reverse: (args) => peliasReverse(args, base, apiKey),
+    };
+}
+
+async function peliasSearch(args: NominatimSearchArgs, baseUrl: string, apiKey?: string): Promise<ToolResult> {
+    const { query, limit = 5, countrycodes, language, near, bounded } = args;
+    const params = new URLSearchParams({
+        text: query,
+        size: String(Math.min(Math.max(limit, 1), 10)),
+    });
+    if (apiKey) params.set("api_key", apiKey);
+    if (language) params.set("lang", language);
+    if (countrycodes) params.set("boundary.country", countrycodes.toUpperCase());
+    if (near) {
+        params.set("focus.point.lat", String(near.lat));
+        params.set("focus.point.lon", String(near.lng));
+    }
+    // the focus point only ranks the results; the boundary drops the ones outside it
+    if (near && bounded) {
+        const { left, top, right, bottom } = nearToBBox(near);
+        params.set("boundary.rect.min_lon", left.toFixed(6));
+        params.set("boundary.rect.max_lon", right.toFixed(6));
+        params.set("boundary.rect.min_lat", bottom.toFixed(6));
+        params.set("boundary.rect.max_lat", top.toFixed(6));
+    }
+
+    const got = await getJson(`${baseUrl}/v1/search?${params.toString()}`, "Pelias");
+    if (!got.ok) return got;
+
+    return { ok: true, data: peliasToFeatureCollection(got.json?.features ?? []), source: "nominatim" };
+}
+
+async function peliasReverse(args: NominatimReverseArgs, baseUrl: string, apiKey?: string): Promise<ToolResult> {
+    const { lat, lng, language } = args;
+    const params = new URLSearchParams({
+        "point.lat": String(lat),
+        "point.lon": String(lng),
+        size: "1",
+    });
+    if (apiKey) params.set("api_key", apiKey);
+    if (language) params.set("lang", language);
+
+    const got = await getJson(`${baseUrl}/v1/reverse?${params.toString()}`, "Pelias");
+    if (!got.ok) return got;
+
+    const features = got.json?.features ?? [];
+    if (!features.length) {
+        return toolError("not_found", `Nothing found at ${lat.toFixed(5)}, ${lng.toFixed(5)}`);
+    }
+    return { ok: true, data: peliasToFeatureCollection(features), source: "nominatim" };
+}
+
+// converts Pelias features to the same property shape the Nominatim provider produces
+function peliasToFeatureCollection(items: any[]): FeatureCollection {
+    const features: Feature[] = items.map((it) => {
+        const p = it.properties ?? {};
+        const address: Record<string, string> = {};
+        if (p.housenumber) address.house_number = p.housenumber;
+        for (const level of PELIAS_LEVELS) if (p[level]) address[level] = p[level];
+        if (p.postalcode) address.postcode = p.postalcode;
+
+        return {
+            type: "Feature",
+            properties: {
+                provider: "pelias",
+                display_name: p.label ?? p.name,
+                category: p.layer,
+                type: p.layer,
+                importance: p.confidence,
+                address,
+                address_hierarchy: Object.entries(address)
+                    .filter(([level]) => level !== "postcode")
+                    .map(([level, name]) => ({ level, name })),
+                gid: p.gid,
+            },
+            geometry: it.geometry,
+        };
+    });
+    return { type: "FeatureCollection", features };
+}
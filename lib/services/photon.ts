@@ -0,0 +1,102 @@
+// lib/services/photon.ts
+// Photon (komoot) geocoder provider. Photon returns points only, so results never carry polygons.
+// NOTE: Use this ONLY on the server.
+
+import type { Feature, FeatureCollection } from "geojson";
+import type { GeocoderProvider } from "./geocoder";
+import { getJson } from "./http";
+import { toolError } from "./errors";
+import { nearToBBox, type NominatimReverseArgs, type NominatimSearchArgs, type ToolResult } from "./nominatim";
+
+export const PHOTON_PUBLIC_URL = "https://photon.komoot.io";
+
+// address levels reported by Photon, most specific first
+const PHOTON_LEVELS = ["street", "locality", "district", "city", "county", "state", "country"] as const;
+const OSM_TYPES: Record<string, string> = { N: "node", W: "way", R: "relation" };
+
+// Creates a Photon provider; pass the base URL of a self-hosted instance to use your own server.
+export function createPhotonProvider(baseUrl: string = PHOTON_PUBLIC_URL): GeocoderProvider {
+    const base = baseUrl.replace(/\/+$/, "");
+    return {
+        name: base === PHOTON_PUBLIC_URL ? "photon" : `photon@${base}`,
+        search: (args) => photonSearch(args, base),
+        reverse: (args) => photonReverse(args, base),
+    };
+}
+
+async function photonSearch(args: NominatimSearchArgs, baseUrl: string): Promise<ToolResult> {
+    const { query, limit = 5, countrycodes, language, near, bounded } = args;
+    const params = new URLSearchParams({
+        q: query,
+        limit: String(Math.min(Math.max(limit, 1), 10)),
+    });
+    if (language) params.set("lang", language);
+    if (near) {
+        params.set("lat", String(near.lat));
+        params.set("lon", String(near.lng));
+        // lat/lon only rank the results; the bbox drops the ones outside it
+        if (bounded) {
+            const { left, top, right, bottom } = nearToBBox(near);
+            params.set("bbox", [left, bottom, right, top].map((v) => v.toFixed(6)).join(","));
+        }
+    }
+
+    const got = await getJson(`${baseUrl}/api?${params.toString()}`, "Photon");
+    if (!got.ok) return got;
+
+    // Photon has no country filter, so apply it to the results
+    const allowed = countrycodes?.toLowerCase().split(",").map((c) => c.trim()).filter(Boolean);
+    const features = (got.json?.features ?? []).filter((f: any) =>
+        !allowed?.length || allowed.includes(String(f.properties?.countrycode ?? "").toLowerCase()),
+    );
+
+    return { ok: true, data: photonToFeatureCollection(features), source: "nominatim" };
+}
+
+async function photonReverse(args: NominatimReverseArgs, baseUrl: string): Promise<ToolResult> {
+    const { lat, lng, language } = args;
+    const params = new URLSearchParams({ lat: String(lat), lon: String(lng), limit: "1" });
+    if (language) params.set("lang", language);
+
+    const got = await getJson(`${baseUrl}/reverse?${params.toString()}`, "Photon");
+    if (!got.ok) return got;
+
+    const features = got.json?.features ?? [];
+    if (!features.length) {
+        return toolError("not_found", `Nothing found at ${lat.toFixed(5)}, ${lng.toFixed(5)}`);
+    }
+    return { ok: true, data: photonToFeatureCollection(features), source: "nominatim" };
+}
+
+// converts Photon features to the same property shape the Nominatim provider produces
+function photonToFeatureCollection(items: any[]): FeatureCollection {
+    const features: Feature[] = items.map((it) => {
+        const p = it.properties ?? {};
+        const address: Record<string, string> = {};
+        if (p.housenumber) address.house_number = p.housenumber;
+        for (const level of PHOTON_LEVELS) if (p[level]) address[level] = p[level];
+        if (p.postcode) address.postcode = p.postcode;
+
+        const street = [p.housenumber, p.street].filter(Boolean).join(" ");
+        const parts = [p.name, street, p.district, p.city, p.state, p.country].filter(Boolean);
+
+        return {
+            type: "Feature",
+            properties: {
+                provider: "photon",
+                display_name: [...new Set(parts)].join(", "),
+                category: p.osm_key,
+                type: p.osm_value,
+                address,
+                address_hierarchy: Object.entries(address)
+                    .filter(([level]) => level !== "postcode")
+                    .map(([level, name]) => ({ level, name })),
+                osm_type: OSM_TYPES[p.osm_type] ?? p.osm_type,
+                osm_id: p.osm_id,
+                extent: p.extent,               // [minLon, maxLat, maxLon, minLat] when known
+            },
+            geometry: it.geometry,
+        };
+    });
+    return { type: "FeatureCollection", features };
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimitedError, scheduleRequest, UpstreamTimeoutError } from "./scheduler";
+
+// hosts keep their state for the whole process, so every test uses hosts of its own
+let n = 0;
+const freshHost = () => `host${++n}.test`;
+
+const throttled = (retryAfter: string) => ({ status: 429, headers: new Headers({ "retry-after": retryAfter }) });
+
+describe("scheduleRequest", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("shares one upstream call between identical requests in flight", async () => {
+        const host = freshHost();
+        const run = vi.fn(async () => "body");
+        const [a, b] = await Promise.all([scheduleRequest(host, "q=1", run), scheduleRequest(host, "q=1", run)]);
+        expect(a).toBe("body");
+        expect(b).toBe("body");
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it("calls again once the first request has finished", async () => {
+        const host = freshHost();
+        const run = vi.fn(async () => "body");
+        await scheduleRequest(host, "q=1", run);
+        const second = scheduleRequest(host, "q=1", run);
+        await vi.advanceTimersByTimeAsync(100);
+        await second;
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it("spaces out the requests to a host", async () => {
+        const host = freshHost();
+        const started: number[] = [];
+        const run = async () => {
+            started.push(Date.now());
+        };
+        const t0 = Date.now();
+        const all = Promise.all([1, 2, 3].map((i) => scheduleRequest(host, `q=${i}`, run)));
+        await vi.advanceTimersByTimeAsync(250);
+        await all;
+        // 100 ms apart by default
+        expect(started.map((t) => t - t0)).toEqual([0, 100, 200]);
+    });
+
+    it("waits out a short Retry-After and tries again", async () => {
+        const host = freshHost();
+        const run = vi.fn()
+            .mockResolvedValueOnce(throttled("1"))
+            .mockResolvedValueOnce("body");
+        const result = scheduleRequest(host, "q", run);
+        await vi.advanceTimersByTimeAsync(999);
+        expect(run).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe("body");
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it("reports a long Retry-After instead of waiting for it", async () => {
+        const host = freshHost();
+        const run = vi.fn(async () => throttled("60"));
+        await expect(scheduleRequest(host, "q", run)).resolves.toMatchObject({ status: 429 });
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it("aborts a request that takes too long", async () => {
+        const host = freshHost();
+        let signal: AbortSignal | undefined;
+        const result = scheduleRequest(host, "q", (s) => {
+            signal = s;
+            return new Promise<never>(() => {});
+        });
+        const failed = expect(result).rejects.toBeInstanceOf(UpstreamTimeoutError);
+        await vi.advanceTimersByTimeAsync(10_000);
+        await failed;
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it("fails fast when too many requests are waiting for a host", async () => {
+        const host = freshHost();
+        const run = async () => "body";
+        // the first one starts at once, the next 20 wait for their slot
+        const queued = Array.from({ length: 21 }, (_, i) => scheduleRequest(host, `q=${i}`, run));
+        await expect(scheduleRequest(host, "one too many", run)).rejects.toBeInstanceOf(RateLimitedError);
+        await vi.advanceTimersByTimeAsync(2100);
+        await expect(Promise.all(queued)).resolves.toHaveLength(21);
+    });
+});
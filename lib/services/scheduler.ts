@@ -0,0 +1,152 @@
+// lib/services/scheduler.ts
+// Server-side request scheduler for upstream providers:
+//  - per-host minimum spacing between requests (Nominatim's policy is at most 1 request per second),
+//  - identical in-flight requests share a single upstream call,
+//  - 429/503 answers push the host back by Retry-After and are retried when the wait is short,
+//  - hung requests are aborted after a timeout,
+//  - when too many requests are already waiting for a host, new ones fail fast with RateLimitedError.
+// Limits are per server process. Override spacing per host with UPSTREAM_RATE_LIMITS, e.g.
+//   UPSTREAM_RATE_LIMITS="localhost:8080=0,nominatim.openstreetmap.org=1000"   (minimum ms between requests)
+// NOTE: Use this ONLY on the server.
+
+// ---------- Errors ----------
+export class RateLimitedError extends Error {
+    constructor(public host: string, public retryAfterMs: number) {
+        super(`Rate limited: too many pending requests to ${host}, try again in ${Math.ceil(retryAfterMs / 1000)}s`);
+        this.name = "RateLimitedError";
+    }
+}
+
+export class UpstreamTimeoutError extends Error {
+    constructor(public host: string, public timeoutMs: number) {
+        super(`Timed out after ${timeoutMs}ms waiting for ${host}`);
+        this.name = "UpstreamTimeoutError";
+    }
+}
+
+// ---------- Config ----------
+// minimum ms between request starts for public instances with published usage policies
+const DEFAULT_INTERVALS: Record<string, number> = {
+    "nominatim.openstreetmap.org": 1000,
+    "photon.komoot.io": 500,
+    "router.project-osrm.org": 1000,
+    "api.foursquare.com": 50,
+};
+const DEFAULT_INTERVAL_MS = 100;
+const MAX_QUEUE = Number(process.env.UPSTREAM_MAX_QUEUE ?? 20);
+const TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS ?? 10_000);
+const MAX_RETRIES = 2;
+const MAX_RETRY_WAIT_MS = 10_000;   // longer Retry-After values are reported instead of waited out
+const DEFAULT_RETRY_AFTER_MS = 2000;
+
+function parseIntervals(): Record<string, number> {
+    const out = { ...DEFAULT_INTERVALS };
+    for (const entry of (process.env.UPSTREAM_RATE_LIMITS ?? "").split(",")) {
+        const [host, ms] = entry.split("=").map((s) => s.trim());
+        if (host && ms && Number.isFinite(Number(ms))) out[host] = Number(ms);
+    }
+    return out;
+}
+const INTERVALS = parseIntervals();
+
+// ---------- State ----------
+type HostState = { nextAt: number; waiting: number };
+const HOSTS = new Map<string, HostState>();
+const IN_FLIGHT = new Map<string, Promise<unknown>>();
+
+function hostState(host: string): HostState {
+    let s = HOSTS.get(host);
+    if (!s) {
+        s = { nextAt: 0, waiting: 0 };
+        HOSTS.set(host, s);
+    }
+    return s;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Reserves the next free slot for the host and waits for it; throws when the queue is saturated.
+async function acquireSlot(host: string) {
+    const s = hostState(host);
+    const interval = INTERVALS[host] ?? DEFAULT_INTERVAL_MS;
+    const now = Date.now();
+    if (s.waiting >= MAX_QUEUE) {
+        throw new RateLimitedError(host, Math.max(s.nextAt - now, interval));
+    }
+    const slot = Math.max(now, s.nextAt);
+    s.nextAt = slot + interval;
+    if (slot > now) {
+        s.waiting++;
+        try {
+            await sleep(slot - now);
+        } finally {
+            s.waiting--;
+        }
+    }
+}
+
+// Retry-After (seconds or HTTP date) of a throttled answer; undefined when the answer is not throttled.
+// Works on fetch Responses as well as on errors that carry `status` and `headers` (e.g. the Foursquare SDK's).
+function retryAfterMs(x: any): number | undefined {
+    if (!x || (x.status !== 429 && x.status !== 503)) return;
+    const header: string | null | undefined = x.headers?.get?.("retry-after");
+    if (!header) return DEFAULT_RETRY_AFTER_MS;
+    const secs = Number(header);
+    if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
+}
+
+// Runs one attempt with a timeout; `run` gets an AbortSignal it should pass to fetch.
+async function attempt<T>(host: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const ctrl = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            ctrl.abort();
+            reject(new UpstreamTimeoutError(host, TIMEOUT_MS));
+        }, TIMEOUT_MS);
+    });
+    try {
+        // racing also covers clients that cannot take a signal
+        return await Promise.race([run(ctrl.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// ---------- Public API ----------
+
+// Schedules an upstream request. Calls with the same `key` while one is in flight share its result,
+// so `run` must return something every caller can consume (e.g. a parsed body, not a raw Response).
+export function scheduleRequest<T>(host: string, key: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const dedupeKey = `${host} ${key}`;
+    const existing = IN_FLIGHT.get(dedupeKey);
+    if (existing) return existing as Promise<T>;
+
+    const p = (async () => {
+        for (let retry = 0; ; retry++) {
+            await acquireSlot(host);
+            let value: T | undefined;
+            let error: unknown;
+            try {
+                value = await attempt(host, run);
+            } catch (e) {
+                error = e;
+            }
+
+            const wait = retryAfterMs(error ?? value);
+            if (wait !== undefined) {
+                // push every queued request for this host back, not just this one
+                const s = hostState(host);
+                s.nextAt = Math.max(s.nextAt, Date.now() + wait);
+                if (retry < MAX_RETRIES && wait <= MAX_RETRY_WAIT_MS) continue;
+            }
+            if (error) throw error;
+            return value as T;
+        }
+    })().finally(() => IN_FLIGHT.delete(dedupeKey));
+
+    IN_FLIGHT.set(dedupeKey, p);
+    return p;
+}
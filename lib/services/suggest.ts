@@ -0,0 +1,110 @@
+// lib/services/suggest.ts
+// Place suggestions for the map search box: Foursquare autocomplete (places and areas near the map view)
+// merged with the configured geocoder (addresses, streets, admin areas with outlines).
+// Either source may fail on its own; the other's suggestions are still returned.
+// NOTE: Use this ONLY on the server.
+
+import type { Feature } from "geojson";
+import { fsqAutocomplete, fsqResultsToGeoJSON } from "./foursquare";
+import { geocodeSearch } from "./geocoder";
+
+export type Suggestion = {
+    id: string;
+    label: string;                   // e.g. "Blue Bottle Coffee"
+    detail: string;                  // e.g. "Seongsu-dong, Seoul · Coffee Shop"
+    source: "fsq" | "geocoder";
+    feature: Feature;                // drawn on the map when picked
+};
+
+export type SuggestArgs = {
+    query: string;
+    near?: { lat: number; lng: number };
+    limit?: number;
+};
+
+const FSQ_RADIUS_M = 50_000;
+
+// One suggestion per Foursquare place or geographic area with a location; query suggestions are skipped.
+function fsqSuggestions(results: any[]): Suggestion[] {
+    const out: Suggestion[] = [];
+    for (const r of results) {
+        if (r?.type === "place" && r.place) {
+            const p = r.place;
+            const latitude = p.latitude ?? p.geocodes?.main?.latitude;
+            const longitude = p.longitude ?? p.geocodes?.main?.longitude;
+            const [feature] = fsqResultsToGeoJSON([{ ...p, latitude, longitude }]).features;
+            if (!feature) continue;
+            const category = p.categories?.[0]?.name;
+            out.push({
+                id: `fsq:${p.fsq_place_id ?? p.fsq_id}`,
+                label: r.text?.primary ?? p.name,
+                detail: [r.text?.secondary ?? p.location?.formatted_address, category].filter(Boolean).join(" · "),
+                source: "fsq",
+                feature,
+            });
+        } else if (r?.type === "geo" && r.geo?.center) {
+            const { name, center, bounds, cc } = r.geo;
+            if (typeof center.latitude !== "number" || typeof center.longitude !== "number") continue;
+            out.push({
+                id: `fsq-geo:${name}:${center.latitude},${center.longitude}`,
+                label: r.text?.primary ?? name,
+                detail: r.text?.secondary ?? cc ?? "",
+                source: "fsq",
+                feature: {
+                    type: "Feature",
+                    properties: {
+                        source: "foursquare",
+                        name,
+                        display_name: [r.text?.primary, r.text?.secondary].filter(Boolean).join(", ") || name,
+                        bbox: bounds?.sw && bounds?.ne
+                            ? [bounds.sw.longitude, bounds.sw.latitude, bounds.ne.longitude, bounds.ne.latitude]
+                            : undefined,
+                    },
+                    geometry: { type: "Point", coordinates: [center.longitude, center.latitude] },
+                },
+            });
+        }
+    }
+    return out;
+}
+
+function geocoderSuggestions(features: Feature[]): Suggestion[] {
+    return features.map((f, i) => {
+        const p: any = f.properties ?? {};
+        const [label, ...rest] = String(p.display_name ?? "").split(", ");
+        return {
+            id: `geocoder:${p.osm_type ?? ""}${p.osm_id ?? i}`,
+            label: label || String(p.name ?? ""),
+            detail: rest.join(", "),
+            source: "geocoder" as const,
+            feature: f,
+        };
+    });
+}
+
+// Suggestions for a partly typed place: Foursquare places (biased to `near`), then geocoder results, then
+// Foursquare areas the geocoder did not find (its version has an outline). `errors` names the sources that failed.
+export async function placeSuggestions({ query, near, limit = 8 }: SuggestArgs): Promise<{ suggestions: Suggestion[]; errors: string[] }> {
+    const q = query.trim();
+    if (q.length < 3) return { suggestions: [], errors: [] };
+
+    const [fsq, geo] = await Promise.all([
+        fsqAutocomplete({ query: q, ll: near, radiusMeters: near ? FSQ_RADIUS_M : undefined, limit: 5 }),
+        // the geocoder is not restricted to the view, so the search box can jump anywhere
+        geocodeSearch({ query: q, limit: 5, polygon: true }),
+    ]);
+
+    const errors: string[] = [];
+    const fsqList = fsq.ok ? fsqSuggestions(fsq.data) : [];
+    const geoList = geo.ok ? geocoderSuggestions(geo.data.features) : [];
+    if (!fsq.ok) errors.push(`Foursquare: ${fsq.error}`);
+    if (!geo.ok) errors.push(`Geocoder: ${geo.error}`);
+
+    const geocoded = new Set(geoList.map((s) => s.label.toLowerCase()));
+    const suggestions = [
+        ...fsqList.filter((s) => s.id.startsWith("fsq:")),
+        ...geoList,
+        ...fsqList.filter((s) => !s.id.startsWith("fsq:") && !geocoded.has(s.label.toLowerCase())),
+    ];
+    return { suggestions: suggestions.slice(0, limit), errors };
+}
@@ -0,0 +1,68 @@
+// lib/sessions/file.ts
+// File session store: one JSON document per session.
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { isValidSessionId, ownerOf, sessionTitle, type SessionStore, type StoredSession } from "./index";
+
+export function createFileSessionStore(dir: string): SessionStore {
+    const fileFor = (id: string) => {
+        if (!isValidSessionId(id)) throw new Error(`Invalid session id "${id}"`);
+        return path.join(dir, `${id}.json`);
+    };
+
+    const read = async (file: string): Promise<StoredSession | undefined> => {
+        try {
+            return JSON.parse(await readFile(file, "utf8")) as StoredSession;
+        } catch {
+            return; // missing or unreadable
+        }
+    };
+
+    return {
+        async list(owner) {
+            let names: string[];
+            try {
+                names = await readdir(dir);
+            } catch {
+                return [];
+            }
+            const sessions = await Promise.all(
+                names.filter((n) => n.endsWith(".json")).map((n) => read(path.join(dir, n))),
+            );
+            return sessions
+                .filter((s): s is StoredSession => !!s && ownerOf(s) === owner)
+                .map(({ messages, ...rest }) => ({ ...rest, messageCount: messages.length }))
+                .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        },
+        async get(id, owner) {
+            const session = await read(fileFor(id));
+            return session && ownerOf(session) === owner ? session : undefined;
+        },
+        async save(id, owner, messages) {
+            const file = fileFor(id);
+            const now = new Date().toISOString();
+            const prev = await read(file);
+            if (prev && ownerOf(prev) !== owner) throw new Error(`Session "${id}" belongs to another user`);
+            const session: StoredSession = {
+                id,
+                owner,
+                title: sessionTitle(messages),
+                createdAt: prev?.createdAt ?? now,
+                updatedAt: now,
+                messages,
+            };
+            await mkdir(dir, { recursive: true });
+            // write then rename so a concurrent read never sees a half-written session
+            const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+            await writeFile(tmp, JSON.stringify(session), "utf8");
+            await rename(tmp, file);
+            return session;
+        },
+        async delete(id, owner) {
+            const file = fileFor(id);
+            const session = await read(file);
+            if (session && ownerOf(session) === owner) await rm(file, { force: true });
+        },
+    };
+}
@@ -0,0 +1,64 @@
+// lib/sessions/index.ts
+// Server-side storage of chat sessions (UI messages including tool outputs), keyed by the session id in the URL.
+// Every session belongs to the user who started it (see lib/auth); other users cannot list, read, overwrite
+// or delete it.
+// The backend is chosen per deployment with SESSION_STORE; only `file` (JSON files under SESSION_DIR,
+// default .data/sessions) exists so far.
+// NOTE: Use this ONLY on the server.
+
+import path from "path";
+import type { UIMessage } from "ai";
+import { createFileSessionStore } from "./file";
+
+// ---------- Types ----------
+export type StoredSession = {
+    id: string;
+    owner: string;               // AuthUser id
+    title: string;
+    createdAt: string;           // ISO timestamps
+    updatedAt: string;
+    messages: UIMessage[];
+};
+
+export type SessionSummary = Omit<StoredSession, "messages"> & { messageCount: number };
+
+// every method only sees the sessions of `owner`; saving over another user's session throws
+export interface SessionStore {
+    list(owner: string): Promise<SessionSummary[]>;  // most recently updated first
+    get(id: string, owner: string): Promise<StoredSession | undefined>;
+    save(id: string, owner: string, messages: UIMessage[]): Promise<StoredSession>;
+    delete(id: string, owner: string): Promise<void>;
+}
+
+// ids end up in file names, so keep them to a safe alphabet
+const SESSION_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidSessionId(id: unknown): id is string {
+    return typeof id === "string" && SESSION_ID.test(id);
+}
+
+// sessions saved before they had an owner were saved without sign-in
+export function ownerOf(session: StoredSession): string {
+    return session.owner ?? "anonymous";
+}
+
+// Title shown in the session list: the first thing the user asked.
+export function sessionTitle(messages: UIMessage[]): string {
+    for (const m of messages) {
+        if (m.role !== "user") continue;
+        const text = m.parts.map((p) => (p.type === "text" ? p.text : "")).join(" ").trim();
+        if (text) return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    }
+    return "New chat";
+}
+
+// ---------- Store ----------
+let store: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+    if (store) return store;
+    const kind = (process.env.SESSION_STORE ?? "file").toLowerCase();
+    if (kind !== "file") console.warn(`SESSION_STORE: unknown store "${kind}", using file`);
+    store = createFileSessionStore(process.env.SESSION_DIR ?? path.join(process.cwd(), ".data", "sessions"));
+    return store;
+}
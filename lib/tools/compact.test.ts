@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { tool, type UIMessage } from "ai";
+import type { Feature, FeatureCollection, Polygon } from "geojson";
+import { area, circle, positions } from "../geo";
+import { compactTools, fullFeature, simplifyForMap, summarizeForModel } from "./compact";
+import { createSpatialTools } from "./spatial";
+import type { MapViewport } from "../layers";
+
+// a park outline with far more detail than any map shows
+const outline: Polygon = circle([127.04, 37.54], 1000, 20_000);
+const park: FeatureCollection = {
+    type: "FeatureCollection",
+    features: [
+        { type: "Feature", properties: { name: "Seoul Forest", category: "leisure" }, geometry: outline },
+        { type: "Feature", properties: { name: "Gate" }, geometry: { type: "Point", coordinates: [127.04, 37.531] } },
+    ],
+};
+const viewport: MapViewport = { bbox: [126.9, 37.45, 127.2, 37.65], center: { lat: 37.55, lng: 127.05 }, zoom: 12 };
+
+const tools = compactTools({
+    findPark: tool({
+        description: "test tool",
+        inputSchema: z.object({}),
+        execute: async () => ({ ok: true as const, data: park, source: "nominatim" as const }),
+    }),
+});
+const run = (toolCallId: string) => tools.findPark.execute!({}, { toolCallId, messages: [], experimental_context: { viewport } }) as Promise<any>;
+
+describe("compactTools", () => {
+    it("returns the geometry simplified for the map the request came from", async () => {
+        const output = await run("call-1");
+        const [shape, gate] = output.data.features as Feature[];
+        expect(positions(shape.geometry).length).toBeLessThan(positions(outline).length / 10);
+        expect(output.data).toEqual(simplifyForMap(park, viewport));
+        expect(gate).toEqual(park.features[1]);
+        // still close to the real shape
+        expect(area(shape.geometry)).toBeCloseTo(area(outline), -4);
+    });
+
+    it("keeps the full geometry on the server for the spatial tools", async () => {
+        const output = await run("call-2");
+        const shown: Feature = output.data.features[0];
+        expect((await fullFeature(shown)).geometry).toEqual(outline);
+        // one the server never simplified is used as it is
+        const other: Feature = { ...shown, geometry: circle([0, 0], 10) };
+        expect(await fullFeature(other)).toBe(other);
+
+        const messages = [{
+            id: "a1",
+            role: "assistant",
+            parts: [{ type: "tool-findPark", toolCallId: "call-2", state: "output-available", input: {}, output }],
+        }] as unknown as UIMessage[];
+        const measured: any = await createSpatialTools(messages).measureArea.execute!({ feature: "Seoul Forest" }, { toolCallId: "call-3", messages: [] });
+        expect(measured.data.features[0].properties.area_m2).toBe(Math.round(area(outline)));
+    });
+
+    it("gives the model a summary instead of coordinates", async () => {
+        const summary: any = summarizeForModel(await run("call-4"));
+        expect(summary.featureCount).toBe(2);
+        expect(summary.features[0]).toMatchObject({ name: "Seoul Forest", geometry: "Polygon", center: [37.54, 127.04] });
+        expect(JSON.stringify(summary)).not.toContain("coordinates");
+    });
+});
@@ -0,0 +1,182 @@
+// lib/tools/compact.ts
+// Tool results have three readers. A city boundary from the geocoder can be megabytes of coordinates, which
+// would be streamed to the browser, saved with the chat session and read by the model (and paid for) on every
+// later turn. So the result streamed to the map has its geometry simplified on the server to the detail the
+// user's map can show (from the viewport sent with the request), the full geometry stays on the server for the
+// tools that measure earlier results (./spatial, ./show-more), and the model gets names, types, centroids,
+// bboxes, sizes and the useful properties of each feature instead of coordinates.
+
+import { createHash } from "crypto";
+import type { Feature, FeatureCollection, Geometry } from "geojson";
+import type { JSONValue, Tool } from "ai";
+import type { ToolResult } from "./types";
+import type { ChatContext } from "./context";
+import type { MapViewport } from "../layers";
+import { area, bbox, centroid, length, positions, simplify, type BBox } from "../geo";
+import { createCache } from "../cache";
+
+// features described to the model per result; the rest are only counted
+const MAX_FEATURES = 30;
+const MAX_STRING = 200;
+const MAX_LIST = 5;
+// properties the model does not need: coordinates again, turn-by-turn steps shown in the chat, photo URLs
+const MODEL_SKIP = new Set(["bbox", "boundingbox", "geojson", "steps", "photos", "menu"]);
+
+// assumed map width when the client did not report its viewport
+const DEFAULT_VIEWPORT_PX = 1024;
+// the tolerance is a quarter pixel at the zoom the map fits the result to, so shapes stay smooth
+// when the user zooms in two more levels
+const DETAIL = 4;
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits));
+
+// ---------- Map geometry ----------
+
+function collectionBBox(fc: FeatureCollection): BBox | null {
+    let out: BBox | null = null;
+    for (const f of fc.features) {
+        const b = f.geometry && bbox(f.geometry);
+        if (!b) continue;
+        out = out ? [Math.min(out[0], b[0]), Math.min(out[1], b[1]), Math.max(out[2], b[2]), Math.max(out[3], b[3])] : b;
+    }
+    return out;
+}
+
+// width of the user's map in pixels, from the degrees it shows at its zoom (512 px tiles)
+function viewportPixels(v: MapViewport | undefined): number {
+    if (!v) return DEFAULT_VIEWPORT_PX;
+    const px = (v.bbox[2] - v.bbox[0]) / (360 / (512 * 2 ** v.zoom));
+    return Number.isFinite(px) && px > 0 ? Math.min(4096, Math.max(320, px)) : DEFAULT_VIEWPORT_PX;
+}
+
+// Simplification tolerance (degrees) for a collection drawn fitted to the user's map: its extent spread
+// over the map's width, in DETAIL steps per pixel.
+export function displayTolerance(fc: FeatureCollection, viewport?: MapViewport): number {
+    const b = collectionBBox(fc);
+    if (!b) return 0;
+    const k = 1 / Math.max(0.01, Math.cos((((b[1] + b[3]) / 2) * Math.PI) / 180));
+    const extent = Math.max(b[2] - b[0], (b[3] - b[1]) * k);
+    return extent / (viewportPixels(viewport) * DETAIL);
+}
+
+// the collection with its lines and polygons simplified for drawing on the user's map, in the same order
+export function simplifyForMap(fc: FeatureCollection, viewport?: MapViewport): FeatureCollection {
+    const tolerance = displayTolerance(fc, viewport);
+    if (!tolerance) return fc;
+    const features = fc.features.map((f): Feature => {
+        const t = f.geometry?.type;
+        return t && t !== "Point" && t !== "MultiPoint" ? { ...f, geometry: simplify(f.geometry, tolerance) } : f;
+    });
+    return { ...fc, features };
+}
+
+// ---------- Full geometry ----------
+
+// Full-resolution geometry of the features whose simplified geometry lost detail, keyed by a digest of the
+// simplified geometry (so only who has the simplified shape finds the full one). Once the cache has dropped
+// one (or after a restart with the memory backend), the simplified geometry is used.
+const FULL_GEOMETRY = createCache<Geometry>("full-geometry", { ttl: () => 7 * 24 * 60 * 60 * 1000 });
+
+const geometryKey = (g: Geometry) => createHash("sha256").update(JSON.stringify(g)).digest("base64url");
+
+// a feature of an earlier result (as streamed to the map) with its full geometry, when the server still has it
+export async function fullFeature(shown: Feature): Promise<Feature> {
+    const full = shown.geometry ? await FULL_GEOMETRY.get(geometryKey(shown.geometry)) : undefined;
+    return full ? { ...shown, geometry: full } : shown;
+}
+
+// The result as it is streamed to the map and saved with the session: simplified, with the full
+// geometry of every simplified feature kept on the server.
+export async function simplifyResult(output: unknown, viewport?: MapViewport): Promise<unknown> {
+    const r = output as ToolResult | undefined;
+    if (!r?.ok || r.data?.type !== "FeatureCollection") return output;
+    const data = simplifyForMap(r.data, viewport);
+    const lost = data.features.flatMap((f, i) => {
+        const full = r.data.features[i].geometry;
+        return f.geometry && full && positions(f.geometry).length < positions(full).length ? [{ shown: f.geometry, full }] : [];
+    });
+    if (!lost.length) return output;
+    await Promise.all(lost.map(({ shown, full }) => FULL_GEOMETRY.set(geometryKey(shown), full)));
+    return { ...r, data };
+}
+
+// ---------- Model summary ----------
+
+function compactValue(v: unknown): JSONValue | undefined {
+    if (typeof v === "string") return v.length > MAX_STRING ? `${v.slice(0, MAX_STRING - 1)}…` : v;
+    if (typeof v === "number" || typeof v === "boolean") return v;
+    if (Array.isArray(v)) {
+        const list = v.filter((x) => ["string", "number", "boolean"].includes(typeof x)).slice(0, MAX_LIST).map(compactValue);
+        return list.length ? list as JSONValue[] : undefined;
+    }
+    // small flat objects such as an address hierarchy
+    if (v && typeof v === "object") {
+        const entries = Object.entries(v).filter(([, x]) => ["string", "number", "boolean"].includes(typeof x));
+        return entries.length && entries.length <= 20 ? Object.fromEntries(entries.map(([k, x]) => [k, compactValue(x) as JSONValue])) : undefined;
+    }
+    return undefined;
+}
+
+// name, geometry type, centroid (lat, lng), bbox and size of a feature, plus its compact properties
+export function summarizeFeature(f: Feature): { [key: string]: JSONValue } {
+    const g = f.geometry as Geometry | null;
+    const out: { [key: string]: JSONValue } = {};
+    const p: Record<string, unknown> = f.properties ?? {};
+    const name = compactValue(p.name ?? p.display_name);
+    if (name) out.name = name;
+    out.geometry = g?.type ?? null;
+    const c = centroid(g);
+    if (c) out.center = [round(c[1], 5), round(c[0], 5)];
+    if (g && g.type !== "Point") {
+        const b = bbox(g);
+        if (b) out.bbox = b.map((x) => round(x, 4));
+        const m2 = area(g);
+        if (m2 > 0) out.area_km2 = round(m2 / 1_000_000, m2 >= 1_000_000 ? 1 : 4);
+        else if (g.type.includes("LineString")) out.length_km = round(length(g) / 1000, 2);
+    }
+    for (const [k, v] of Object.entries(p)) {
+        if (k === "name" || MODEL_SKIP.has(k) || k in out) continue;
+        const value = compactValue(v);
+        if (value !== undefined) out[k] = value;
+    }
+    return out;
+}
+
+// What the model reads of a tool result: errors and non-map results as they are (tool outputs are JSON, as
+// they are streamed to the client), FeatureCollections as feature summaries (the first MAX_FEATURES of them).
+export function summarizeForModel(output: unknown): JSONValue {
+    const r = output as ToolResult | undefined;
+    if (!r?.ok || r.data?.type !== "FeatureCollection") return (output ?? null) as JSONValue;
+    // the model only needs to know whether "showMore" can add another page, not the cursors
+    const { data, page, ...rest } = r;
+    const features = data.features.slice(0, MAX_FEATURES).map(summarizeFeature);
+    return {
+        ...(rest as { [key: string]: JSONValue }),
+        featureCount: data.features.length,
+        features,
+        ...(data.features.length > MAX_FEATURES ? { omittedFeatures: data.features.length - MAX_FEATURES } : {}),
+        ...(page ? { page: page.page, morePages: page.cursors.length > 0 } : {}),
+    };
+}
+
+// ---------- Tools ----------
+
+// The map tools with simplified geometry in their results, and only the summary of them for the model
+// (also for results of earlier turns, when the messages are converted with these tools).
+export function compactTools<T extends Record<string, Tool>>(tools: T): T {
+    const out: Record<string, Tool> = {};
+    for (const [name, t] of Object.entries(tools)) {
+        const execute = t.execute;
+        out[name] = {
+            ...t,
+            ...(execute ? {
+                execute: async (input: unknown, options: Parameters<typeof execute>[1]) => {
+                    const viewport = (options.experimental_context as ChatContext | undefined)?.viewport;
+                    return simplifyResult(await execute(input, options), viewport);
+                },
+            } : {}),
+            toModelOutput: (output: unknown) => ({ type: "json", value: summarizeForModel(output) }),
+        };
+    }
+    return out as T;
+}
@@ -0,0 +1,91 @@
+// lib/tools/compare-places.ts
+import { z } from "zod";
+import type { Feature } from "geojson";
+import { tool } from "ai";
+import type { ComparisonGroup, ToolResult } from "./types";
+import { fsqResultsToGeoJSON, fsqSearch } from "../services/foursquare";
+import { resolveSearchCenter } from "./foursquare-by-place";
+import type { ChatContext } from "./context";
+import { combineErrors, isToolError } from "../services/errors";
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const mean = (xs: number[]) => (xs.length ? round1(xs.reduce((a, b) => a + b, 0) / xs.length) : undefined);
+
+// count, average rating and price, nearest and best rated option of one place's results
+function groupStats(place: string, features: Feature[]): ComparisonGroup {
+    const props = features.map((f) => f.properties as any);
+    const rated = props.filter((p) => typeof p.rating === "number");
+    const nearest = props.filter((p) => typeof p.distance === "number").sort((a, b) => a.distance - b.distance)[0];
+    const best = [...rated].sort((a, b) => b.rating - a.rating)[0];
+    return {
+        place,
+        count: props.length,
+        ratedCount: rated.length,
+        avgRating: mean(rated.map((p) => p.rating)),
+        avgPrice: mean(props.filter((p) => typeof p.price === "number").map((p) => p.price)),
+        nearest: nearest && { name: nearest.name, distance: nearest.distance },
+        topRated: best && { name: best.name, rating: best.rating },
+    };
+}
+
+function describe(g: ComparisonGroup): string {
+    if (g.error) return `${g.place}: ${g.error}`;
+    const parts = [`${g.count} found`];
+    if (g.avgRating !== undefined) parts.push(`average rating ${g.avgRating}/10 (${g.ratedCount} rated)`);
+    if (g.topRated) parts.push(`best ${g.topRated.name} (${g.topRated.rating})`);
+    if (g.nearest) parts.push(`nearest ${g.nearest.name} (${Math.round(g.nearest.distance)} m)`);
+    return `${g.place}: ${parts.join(", ")}`;
+}
+
+// Tool to be used by the chatbot for comparing the same kind of recommendations around several places.
+export const comparePlacesTool = tool({
+    description:
+        "Compare Foursquare recommendations for one query (e.g. \"ramen\") around 2 to 5 places in a single call, e.g. \"ramen near Shibuya vs Shinjuku\". Searches all places at once and returns every POI tagged with the place it was found near (properties.group), plus per-place statistics: count, average rating (0-10), average price tier (1-4), nearest and best rated option. Use this instead of several foursquareByPlace calls whenever places are compared.",
+    inputSchema: z.object({
+        places: z.array(z.string().min(2)).min(2).max(5),   // e.g. ["Shibuya", "Shinjuku"] or "lat, lng"
+        query: z.string().default("restaurants"),
+        radiusKm: z.number().int().min(1).max(5).default(2),
+        limit: z.number().int().min(1).max(20).default(10), // per place
+        minRating: z.number().min(0).max(10).optional(),
+    }),
+    // server-side only
+    execute: async ({ places, query, radiusKm, limit, minRating }, { experimental_context }): Promise<ToolResult> => {
+        const ctx = experimental_context as ChatContext | undefined;
+        // every place is resolved and searched concurrently; one failing place does not fail the comparison
+        const groups = await Promise.all(places.map(async (place, i) => {
+            const center = await resolveSearchCenter(place, undefined, ctx);
+            if (isToolError(center)) return { stats: { ...groupStats(place, []), error: center.error }, features: [], failure: center };
+
+            const sr = await fsqSearch({
+                ll: { lat: center.lat, lng: center.lng },
+                query,
+                radiusMeters: radiusKm * 1000,
+                limit,
+                includeDetails: true,
+            });
+            if (!sr.ok) return { stats: { ...groupStats(place, []), error: sr.error }, features: [], failure: sr };
+
+            const pois = fsqResultsToGeoJSON(sr.data).features.filter((f) =>
+                typeof minRating !== "number" || (typeof f.properties?.rating === "number" && f.properties.rating >= minRating));
+            const tag = (f: Feature): Feature => ({ ...f, properties: { ...f.properties, group: place, group_index: i } });
+            const centerFeature: Feature = {
+                type: "Feature",
+                properties: { source: "nominatim", name: center.name, category: "search-center" },
+                geometry: center.geometry,
+            };
+            return { stats: groupStats(place, pois), features: [tag(centerFeature), ...pois.map(tag)] };
+        }));
+
+        const comparison = groups.map((g) => g.stats);
+        if (comparison.every((g) => g.error)) {
+            return combineErrors(groups.flatMap((g, i) => (g.failure ? [{ ...g.failure, error: `${places[i]}: ${g.failure.error}` }] : [])));
+        }
+        return {
+            ok: true,
+            data: { type: "FeatureCollection", features: groups.flatMap((g) => g.features) },
+            source: "compare",
+            summary: comparison.map(describe).join("\n"),
+            comparison,
+        };
+    },
+});
@@ -0,0 +1,78 @@
+// lib/tools/context.ts
+// Where the user is looking and (when they opted in) where they are, as sent by the client with each message.
+// The chat route passes this to the tools as `experimental_context`, so tools can fill in coordinates for
+// "near here" / "near me" instead of the model guessing them.
+
+import type { MapViewport, UserLocation } from "../layers";
+import { toolError, type ToolError } from "../services/errors";
+
+export type ChatContext = { viewport?: MapViewport; location?: UserLocation };
+
+// which position a tool should search around: the map view ("here") or the user's own location ("me")
+export type Around = "map" | "me";
+
+const isLat = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n) && Math.abs(n) <= 90;
+const isLng = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n) && Math.abs(n) <= 180;
+
+// Validates the untrusted viewport/location fields of a chat request body; invalid parts are dropped.
+export function parseChatContext(body: any): ChatContext {
+    const ctx: ChatContext = {};
+    const v = body?.viewport;
+    if (v && isLat(v.center?.lat) && isLng(v.center?.lng) && Number.isFinite(v.zoom) && Array.isArray(v.bbox)
+        && v.bbox.length === 4 && isLng(v.bbox[0]) && isLat(v.bbox[1]) && isLng(v.bbox[2]) && isLat(v.bbox[3])) {
+        ctx.viewport = { bbox: v.bbox, center: { lat: v.center.lat, lng: v.center.lng }, zoom: v.zoom };
+    }
+    const l = body?.location;
+    if (l && isLat(l.lat) && isLng(l.lng)) {
+        ctx.location = { lat: l.lat, lng: l.lng, accuracy: Number.isFinite(l.accuracy) ? l.accuracy : undefined };
+    }
+    return ctx;
+}
+
+const round = (n: number) => Number(n.toFixed(5));
+
+// System prompt lines describing the context.
+export function chatContextPrompt(ctx: ChatContext): string {
+    const lines: string[] = [];
+    if (ctx.viewport) {
+        const { bbox, center, zoom } = ctx.viewport;
+        lines.push(`The user's map is centred on ${round(center.lat)}, ${round(center.lng)} at zoom ${zoom.toFixed(1)}, showing longitudes ${round(bbox[0])} to ${round(bbox[2])} and latitudes ${round(bbox[1])} to ${round(bbox[3])}.`);
+    }
+    if (ctx.location) {
+        const acc = ctx.location.accuracy ? ` (±${Math.round(ctx.location.accuracy)} m)` : "";
+        lines.push(`The user shared their location: ${round(ctx.location.lat)}, ${round(ctx.location.lng)}${acc}.`);
+    } else {
+        lines.push(`The user has not shared their location; for "near me" ask them to turn on the location button on the map, or use the map view.`);
+    }
+    return `\n${lines.join("\n")}`;
+}
+
+// Half the diagonal of the visible map in km, i.e. roughly "what is on screen".
+function viewportRadiusKm(v: MapViewport): number {
+    const [w, s, e, n] = v.bbox;
+    const dLat = (n - s) * 111.32;
+    const dLng = (e - w) * 111.32 * Math.cos((v.center.lat * Math.PI) / 180);
+    return Math.hypot(dLat, dLng) / 2;
+}
+
+// Center to search around: the user's location for "me", otherwise the map centre.
+// The map only counts from city level (zoom 10) on; a zoomed-out view says nothing about "here".
+export function contextCenter(ctx: ChatContext | undefined, around: Around | undefined):
+    { lat: number; lng: number; radiusKm: number; label: string } | undefined {
+    if (around === "me") {
+        if (!ctx?.location) return;
+        const radiusKm = Math.max(1, (ctx.location.accuracy ?? 0) / 1000);
+        return { lat: ctx.location.lat, lng: ctx.location.lng, radiusKm, label: "Your location" };
+    }
+    const v = ctx?.viewport;
+    if (!v || (around !== "map" && v.zoom < 10)) return;
+    return { lat: v.center.lat, lng: v.center.lng, radiusKm: viewportRadiusKm(v), label: "Map centre" };
+}
+
+// for "near me" without a shared location; retrying works once the user turned on the location button
+export function locationNotShared(): ToolError {
+    return toolError("invalid_input", "The user has not shared their location", {
+        retryable: true,
+        hint: "Turn on the location button on the map, then retry.",
+    });
+}
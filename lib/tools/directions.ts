@@ -0,0 +1,59 @@
+// lib/tools/directions.ts
+import { z } from "zod";
+import type { Point } from "geojson";
+import { tool } from "ai";
+import type { ToolResult } from "./types";
+import { geocodeSearch } from "../services/geocoder";
+import { osrmRoute } from "../services/osrm";
+import { parseCoordinate } from "../geo";
+import { isToolError, toolError, type ToolError } from "../services/errors";
+
+// geocode a place name to a single point (Nominatim returns lat/lon points when polygons are not requested);
+// "lat, lng" is used as is, e.g. for "Directions from here" on a map marker
+async function geocodePoint(place: string): Promise<{ lat: number; lng: number; name: string } | ToolError> {
+    const c = parseCoordinate(place);
+    if (c) return { ...c, name: place.trim() };
+    const res = await geocodeSearch({ query: place, limit: 1, polygon: false });
+    if (!res.ok) return { ...res, error: `Could not locate "${place}": ${res.error}` };
+    const f = res.data.features[0];
+    if (f?.geometry?.type !== "Point") return toolError("not_found", `Could not locate "${place}"`);
+    const [lng, lat] = (f.geometry as Point).coordinates;
+    return { lat, lng, name: (f.properties as any)?.display_name ?? place };
+}
+
+// Tool to be used by the chatbot for getting directions between two places.
+export const directionsTool = tool({
+    description:
+        "Get directions between two named places or \"lat, lng\" coordinates. Geocodes names with Nominatim, then routes with OSRM using the driving, walking or cycling profile. Returns a GeoJSON FeatureCollection with the route as a LineString (distance in meters, duration in seconds, turn-by-turn steps) plus origin and destination Points.",
+    inputSchema: z.object({
+        from: z.string().min(2),                                           // e.g. "Jurong Point"
+        to: z.string().min(2),                                             // e.g. "Marina Bay Sands"
+        profile: z.enum(["driving", "walking", "cycling"]).default("driving"),
+    }),
+    // server-side only
+    execute: async ({ from, to, profile }): Promise<ToolResult> => {
+        // 1) Nominatim -> origin/destination points
+        const [origin, destination] = await Promise.all([geocodePoint(from), geocodePoint(to)]);
+        if (isToolError(origin)) return origin;
+        if (isToolError(destination)) return destination;
+
+        // 2) OSRM route between them
+        const route = await osrmRoute({ from: origin, to: destination, profile });
+        if (!route.ok) return route;
+
+        // 3) Add the endpoints
+        route.data.features.push(
+            {
+                type: "Feature",
+                properties: { source: "nominatim", name: from, display_name: origin.name, category: "route-origin" },
+                geometry: { type: "Point", coordinates: [origin.lng, origin.lat] },
+            },
+            {
+                type: "Feature",
+                properties: { source: "nominatim", name: to, display_name: destination.name, category: "route-destination" },
+                geometry: { type: "Point", coordinates: [destination.lng, destination.lat] },
+            },
+        );
+        return route;
+    },
+});
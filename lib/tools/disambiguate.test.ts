@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { Feature, FeatureCollection } from "geojson";
+import { disambiguationResult, MAX_CANDIDATES, pickMatch } from "./disambiguate";
+
+const match = (display_name: string, lng: number, lat: number, importance: number | undefined, category = "place"): Feature => ({
+    type: "Feature",
+    properties: { display_name, importance, category, type: "city" },
+    geometry: { type: "Point", coordinates: [lng, lat] },
+});
+const matches = (...features: Feature[]): FeatureCollection => ({ type: "FeatureCollection", features });
+
+const illinois = match("Springfield, Sangamon County, Illinois, United States", -89.65, 39.8, 0.6);
+const massachusetts = match("Springfield, Hampden County, Massachusetts, United States", -72.59, 42.1, 0.55);
+const missouri = match("Springfield, Greene County, Missouri, United States", -93.29, 37.21, 0.5);
+const springfields = matches(
+    illinois,
+    // the city's boundary, a few km from its centre node
+    match("Springfield, Sangamon County, Illinois, United States", -89.62, 39.78, 0.58, "boundary"),
+    massachusetts,
+    missouri,
+    // much less known
+    match("Springfield, Clark County, Ohio, United States", -83.81, 39.92, 0.3),
+);
+
+describe("pickMatch", () => {
+    it("offers the distinct places that match about equally well", () => {
+        expect(pickMatch("Springfield", springfields)).toEqual({ feature: illinois, candidates: [illinois, massachusetts, missouri] });
+    });
+
+    it("takes the one in view of the map", () => {
+        expect(pickMatch("Springfield", springfields, { lat: 42.1, lng: -72.6, radiusKm: 10 })).toEqual({ feature: massachusetts });
+        // nothing in view: still ask
+        expect(pickMatch("Springfield", springfields, { lat: 51.5, lng: -0.1, radiusKm: 10 })?.candidates).toHaveLength(3);
+    });
+
+    it("takes a candidate's full name as meant", () => {
+        expect(pickMatch(" springfield, hampden county, massachusetts, united states", matches(massachusetts, illinois, missouri)))
+            .toEqual({ feature: massachusetts });
+    });
+
+    it("gives the best match for names that are not towns or areas", () => {
+        const shops = matches(
+            match("Starbucks, Gangnam-daero", 127.027, 37.498, 0.2, "amenity"),
+            match("Starbucks, Jongno", 126.98, 37.57, 0.2, "amenity"),
+        );
+        expect(pickMatch("Starbucks", shops)).toEqual({ feature: shops.features[0] });
+    });
+
+    it("gives the best match without importance scores", () => {
+        const photon = matches(match("Springfield", -89.65, 39.8, undefined), match("Springfield", -72.59, 42.1, undefined));
+        expect(pickMatch("Springfield", photon)).toEqual({ feature: photon.features[0] });
+    });
+
+    it("treats matches close together as one place", () => {
+        const paris = matches(match("Paris, France", 2.35, 48.86, 0.9), match("Paris, Île-de-France, France", 2.34, 48.85, 0.85, "boundary"));
+        expect(pickMatch("Paris", paris)).toEqual({ feature: paris.features[0] });
+    });
+
+    it("offers at most a few candidates and skips matches without geometry", () => {
+        const many = Array.from({ length: 8 }, (_, i) => match(`Springfield ${i}`, -120 + i * 5, 40, 0.5));
+        const r = pickMatch("Springfield", matches({ type: "Feature", properties: { importance: 1 }, geometry: null as never }, ...many));
+        expect(r?.feature).toBe(many[0]);
+        expect(r?.candidates).toHaveLength(MAX_CANDIDATES);
+        expect(pickMatch("Atlantis", matches())).toBeNull();
+    });
+});
+
+describe("disambiguationResult", () => {
+    it("pins the candidates and re-runs the tool with the chosen full name", () => {
+        const r = disambiguationResult("Springfield", [illinois, massachusetts], (name) => ({ place: name, query: "pizza" }));
+        if (!r.ok) throw new Error(r.error);
+        expect(r.summary).toBe("\"Springfield\" matches 2 places. Which one do you mean?");
+        expect(r.data.features.map((f) => f.properties)).toEqual([
+            expect.objectContaining({ name: illinois.properties!.display_name, category: "candidate", candidate: 1 }),
+            expect.objectContaining({ name: massachusetts.properties!.display_name, category: "candidate", candidate: 2 }),
+        ]);
+        expect(r.disambiguation?.options[1]).toEqual({
+            label: massachusetts.properties!.display_name,
+            input: { place: massachusetts.properties!.display_name, query: "pizza" },
+        });
+    });
+});
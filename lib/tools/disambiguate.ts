@@ -0,0 +1,64 @@
+// lib/tools/disambiguate.ts
+// "Springfield" is a dozen towns. When the geocoder's best matches for a name are distinct places of similar
+// importance, the locating tools ask the user instead of silently taking the first: the candidates are drawn
+// as numbered pins and offered as chips, and picking one re-runs the same tool with the candidate's full name.
+import type { Feature, FeatureCollection } from "geojson";
+import type { ToolResult } from "./types";
+import { centroid, distance, type LngLat } from "../geo";
+
+// other matches count as candidates with at least this share of the best match's importance
+const SIMILAR = 0.75;
+// matches closer together are the same place (a town's boundary and its centre node)
+const SAME_PLACE_M = 25_000;
+export const MAX_CANDIDATES = 5;
+// only names of towns and areas are asked about; many matches for a shop name are meant to be shown together
+// (Nominatim classes, Pelias layers)
+const PLACE_CATEGORIES = new Set(["place", "boundary", "locality", "localadmin", "borough", "neighbourhood", "county", "region", "macroregion", "country"]);
+
+const isPlace = (f: Feature) => PLACE_CATEGORIES.has(String(f.properties?.category));
+const label = (f: Feature) => String(f.properties?.display_name ?? f.properties?.name ?? "");
+
+// The geocoder match to use for `query`: the best one, or the only candidate around `near` (the map view);
+// `candidates` is set when several distinct places match about equally well and none is in view.
+// Providers without an importance score (Photon) always give their best match.
+export function pickMatch(query: string, fc: FeatureCollection, near?: { lat: number; lng: number; radiusKm?: number }): { feature: Feature; candidates?: Feature[] } | null {
+    const matches = fc.features.filter((f) => centroid(f.geometry));
+    const best = matches[0];
+    if (!best) return null;
+    const top = best.properties?.importance;
+    // a candidate's full name, as sent back when the user picks it, is not ambiguous
+    if (typeof top !== "number" || !isPlace(best) || label(best).toLowerCase() === query.trim().toLowerCase()) return { feature: best };
+
+    const distinct: { feature: Feature; at: LngLat }[] = [];
+    for (const feature of matches) {
+        const importance = feature.properties?.importance;
+        const at = centroid(feature.geometry)!;
+        if (typeof importance !== "number" || importance < top * SIMILAR || !isPlace(feature)) continue;
+        if (distinct.some((d) => distance(d.at, at) < SAME_PLACE_M)) continue;
+        distinct.push({ feature, at });
+    }
+    if (distinct.length < 2) return { feature: best };
+    if (near) {
+        const radius = Math.max((near.radiusKm ?? 0) * 1000, SAME_PLACE_M);
+        const inView = distinct.filter((d) => distance(d.at, [near.lng, near.lat]) <= radius);
+        if (inView.length === 1) return { feature: inView[0].feature };
+    }
+    return { feature: best, candidates: distinct.slice(0, MAX_CANDIDATES).map((d) => d.feature) };
+}
+
+// The result asking which place was meant: a numbered pin per candidate, and for each the input that
+// re-runs the tool with it (`rerun` puts the candidate's full name where the ambiguous one was).
+export function disambiguationResult(query: string, candidates: Feature[], rerun: (name: string) => Record<string, unknown>): ToolResult {
+    const features: Feature[] = candidates.map((f, i) => ({
+        type: "Feature",
+        properties: { source: "nominatim", name: label(f), type: f.properties?.type, category: "candidate", candidate: i + 1 },
+        geometry: { type: "Point", coordinates: centroid(f.geometry)! },
+    }));
+    return {
+        ok: true,
+        data: { type: "FeatureCollection", features },
+        source: "nominatim",
+        summary: `"${query}" matches ${candidates.length} places. Which one do you mean?`,
+        disambiguation: { query, options: candidates.map((f) => ({ label: label(f), input: rerun(label(f)) })) },
+    };
+}
@@ -0,0 +1,19 @@
+// lib/tools/export.ts
+import { z } from "zod";
+import { tool } from "ai";
+import { EXPORT_FORMATS } from "../export";
+
+// Tool to be used by the chatbot for offering a download of results on the map.
+// The layer data lives in the browser, so this only names what to export; the chat then shows a
+// download button that sends the layer through /api/export.
+export const exportResultsTool = tool({
+  description:
+      "Offer the user a file download of result layers on their map as GeoJSON, KML, GPX or CSV. Use the exact layer name from the list of layers on the map, or \"all\" for every visible layer.",
+  inputSchema: z.object({
+    layer: z.string().min(1).default("all"),         // layer name, or "all"
+    format: z.enum(EXPORT_FORMATS).default("geojson"),
+  }),
+  execute: async ({ layer, format }) => {
+    return { ok: true as const, export: { layer, format } };
+  },
+});
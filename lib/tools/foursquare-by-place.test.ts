@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Polygon } from "geojson";
+import { fsqSearch } from "../services/foursquare";
+import { statusError, toolError } from "../services/errors";
+import { distance } from "../geo";
+import { searchCells, type SearchOptions } from "./foursquare-by-place";
+
+vi.mock("../services/foursquare", () => ({ fsqSearch: vi.fn(), fsqResultsToGeoJSON: vi.fn() }));
+const search = vi.mocked(fsqSearch);
+
+const area: Polygon = { type: "Polygon", coordinates: [[[127, 37.5], [127.1, 37.5], [127.1, 37.6], [127, 37.6], [127, 37.5]]] };
+const center = { lat: 37.55, lng: 127.05 };
+const opts: SearchOptions = { query: "coffee", radiusMeters: 5000, limit: 3, includeDetails: true };
+const cells = [{ lat: 37.53, lng: 127.03 }, { lat: 37.57, lng: 127.07, cursor: "b1" }];
+
+const place = (id: string, lng: number, lat: number) => ({ fsq_place_id: id, name: `Cafe ${id}`, longitude: lng, latitude: lat });
+const ids = (results: { fsq_place_id: string }[]) => results.map((r) => r.fsq_place_id);
+
+describe("searchCells", () => {
+    beforeEach(() => {
+        search.mockReset();
+    });
+
+    it("searches every cell with the same options, continuing from its cursor", async () => {
+        search.mockResolvedValue({ ok: true, data: [] });
+        await searchCells(cells, opts, center, null);
+        expect(search).toHaveBeenCalledTimes(2);
+        expect(search).toHaveBeenCalledWith({ ll: { lat: 37.53, lng: 127.03 }, ...opts, cursor: undefined });
+        expect(search).toHaveBeenCalledWith({ ll: { lat: 37.57, lng: 127.07 }, ...opts, cursor: "b1" });
+    });
+
+    it("takes places from each cell in turn, once each, and only inside the area", async () => {
+        search
+            .mockResolvedValueOnce({ ok: true, data: [place("a", 127.01, 37.51), place("shared", 127.05, 37.55), place("c", 127.02, 37.52)] })
+            .mockResolvedValueOnce({ ok: true, data: [place("d", 127.08, 37.58), place("shared", 127.05, 37.55), place("outside", 127.2, 37.55), place("e", 127.09, 37.59)] });
+        const r = await searchCells(cells, opts, center, area);
+        if (!r.ok) throw new Error(r.error);
+        expect(ids(r.data)).toEqual(["a", "d", "shared", "c", "e"]);
+    });
+
+    it("keeps everything without an area, and leaves out places already shown", async () => {
+        search
+            .mockResolvedValueOnce({ ok: true, data: [place("a", 127.01, 37.51), place("c", 127.02, 37.52)] })
+            .mockResolvedValueOnce({ ok: true, data: [place("outside", 127.2, 37.55)] });
+        const seen = new Set(["a"]);
+        const r = await searchCells(cells, opts, center, null, seen);
+        if (!r.ok) throw new Error(r.error);
+        expect(ids(r.data)).toEqual(["outside", "c"]);
+        expect(seen).toEqual(new Set(["a", "outside", "c"]));
+    });
+
+    it("measures distances from the search centre, not from the cell", async () => {
+        search.mockResolvedValueOnce({ ok: true, data: [place("a", 127.01, 37.51)] }).mockResolvedValueOnce({ ok: true, data: [] });
+        const r = await searchCells(cells, opts, center, area);
+        if (!r.ok) throw new Error(r.error);
+        expect(r.data[0].distance).toBe(Math.round(distance([127.05, 37.55], [127.01, 37.51])));
+    });
+
+    it("continues only the cells that have more places", async () => {
+        search
+            .mockResolvedValueOnce({ ok: true, data: [place("a", 127.01, 37.51)], cursor: "a2" })
+            .mockResolvedValueOnce({ ok: true, data: [place("d", 127.08, 37.58)] });
+        const r = await searchCells(cells, opts, center, area);
+        if (!r.ok) throw new Error(r.error);
+        expect(r.next).toEqual([{ lat: 37.53, lng: 127.03, cursor: "a2" }]);
+    });
+
+    it("gives the places of the cells that worked when others failed", async () => {
+        search
+            .mockResolvedValueOnce(statusError("Foursquare", 503))
+            .mockResolvedValueOnce({ ok: true, data: [place("d", 127.08, 37.58)], cursor: "b2" });
+        const r = await searchCells(cells, opts, center, area);
+        if (!r.ok) throw new Error(r.error);
+        expect(ids(r.data)).toEqual(["d"]);
+        expect(r.next).toEqual([{ lat: 37.57, lng: 127.07, cursor: "b2" }]);
+    });
+
+    it("fails with all the errors when every cell failed", async () => {
+        search
+            .mockResolvedValueOnce(toolError("invalid_input", "Foursquare 400"))
+            .mockResolvedValueOnce(statusError("Foursquare", 503));
+        const r = await searchCells(cells, opts, center, area);
+        expect(r).toMatchObject({ ok: false, code: "invalid_input", error: "Foursquare 400; Foursquare 503", retryable: true });
+    });
+});
@@ -1,105 +1,172 @@
 import { z } from "zod";
-import type { FeatureCollection, Geometry } from "geojson";
+import type { Feature, FeatureCollection, Geometry, MultiPolygon, Polygon } from "geojson";
 import { tool } from "ai";
-import {runNominatimSearch, ToolResult} from "../services/nominatim";
+import type { ResultPage, ToolResult } from "./types";
+import { geocodeSearch } from "../services/geocoder";
 import { fsqSearch, fsqResultsToGeoJSON } from "../services/foursquare";
+import { centroid, coveringCells, distance, interiorPoint, parseCoordinate, pointInPolygon, positions } from "../geo";
+import { combineErrors, isToolError, toolError, type ToolError } from "../services/errors";
+import { contextCenter, locationNotShared, type ChatContext } from "./context";
+import { disambiguationResult, MAX_CANDIDATES, pickMatch } from "./disambiguate";
+import { layerName } from "../layers";
 
-// simple centroid for Polygon/MultiPolygon
-function centroid(g: Geometry | undefined | null): [number, number] | null {
-    if (!g) return null;
-    try {
-        // point IS its own centroid
-        if (g.type === "Point") return g.coordinates as [number, number];
-        // for polygons, find area of the ring using shoelace method, and use it to divide sum of all x- and y- coordinates
-        if (g.type === "Polygon") {
-            const ring = (g.coordinates as [number, number][][])[0] || [];
-            let a=0,cx=0,cy=0;
-            const n = ring.length;
-            if (n < 3) return ring[0] ?? null;
-            for (let i=0;i<n;i++){
-                const [x1,y1]=ring[i], [x2,y2]=ring[(i+1)%n]; const cross = x1*y2 - x2*y1;
-                a += cross; cx += (x1+x2)*cross; cy += (y1+y2)*cross;
-            }
-            if (a === 0) return ring[0] ?? null;
-            return [cx/(3*a), cy/(3*a)];
-        }
-        if (g.type === "MultiPolygon") {
-            const polys = g.coordinates as [number, number][][][];
-            let A=0,CX=0,CY=0;
-            for (const poly of polys) {
-                const ring = poly[0] || [];
-                let a=0,cx=0,cy=0; const n=ring.length; if (n<3) continue;
-                for (let i=0;i<n;i++){ const [x1,y1]=ring[i], [x2,y2]=ring[(i+1)%n]; const cross = x1*y2 - x2*y1; a+=cross; cx+=(x1+x2)*cross; cy+=(y1+y2)*cross; }
-                if (a!==0){ A+=a; CX+=cx; CY+=cy; }
-            }
-            if (A===0) {
-                const first = (polys[0]?.[0]?.[0]) as [number,number] | undefined;
-                return first ?? null;
-            }
-            return [CX/(3*A), CY/(3*A)];
+// `candidates` is set when the place name matches several places about equally well (see ./disambiguate);
+// the center is then the geocoder's best match
+export type SearchCenter = { geometry: Geometry; name: string; lat: number; lng: number; candidates?: Feature[] };
+
+// Resolves where to search: "lat, lng" as is, a place name through the geocoder (biased towards the map view,
+// which helps with ambiguous names), or without a place the map centre or the user's location.
+// For areas, lat/lng is a point inside them (the centroid of a bay or an archipelago is not).
+// Returns a ToolError when that is not possible.
+export async function resolveSearchCenter(place: string | undefined, around: "map" | "me" | undefined, ctx: ChatContext | undefined): Promise<SearchCenter | ToolError> {
+    let g: Geometry | undefined;
+    let name = place ?? "";
+    let candidates: Feature[] | undefined;
+    const coordinate = place ? parseCoordinate(place) : null;
+    if (coordinate) {
+        // coordinates (e.g. "Find similar nearby" on a marker) need no geocoding
+        g = { type: "Point", coordinates: [coordinate.lng, coordinate.lat] };
+    } else if (place) {
+        const bias = contextCenter(ctx, undefined);
+        const near = bias && { lat: bias.lat, lng: bias.lng, radiusKm: Math.min(10, Math.max(0.1, bias.radiusKm)) };
+        const nomi = await geocodeSearch({ query: place, limit: MAX_CANDIDATES, near });
+        if (!nomi.ok) return { ...nomi, error: `Could not locate "${place}": ${nomi.error}` };
+        const match = pickMatch(place, nomi.data, near);
+        if (!match) return toolError("not_found", `Could not locate "${place}"`);
+        g = match.feature.geometry as Geometry | undefined;
+        candidates = match.candidates;
+    } else {
+        const center = contextCenter(ctx, around ?? "map");
+        if (!center) return around === "me" ? locationNotShared() : toolError("invalid_input", "No place given and the map view is unknown", { hint: "Name a place, or zoom the map in to the area first." });
+        g = { type: "Point", coordinates: [center.lng, center.lat] };
+        name = center.label;
+    }
+    const c = g?.type === "Polygon" || g?.type === "MultiPolygon" ? interiorPoint(g) : centroid(g);
+    if (!g || !c) return toolError("not_found", "No usable centroid from place geometry");
+    return { geometry: g, name, lat: c[1], lng: c[0], candidates };
+}
+
+// Areas larger than the search circle are searched in up to MAX_CELLS circles of up to 100 km (Foursquare's limit)
+const MAX_CELLS = 9;
+const MAX_CELL_METERS = 100_000;
+
+// the area a place name stands for (a district, a park), whose results keep only the places inside it
+function placeArea(center: SearchCenter): Polygon | MultiPolygon | null {
+    const g = center.geometry;
+    return g.type === "Polygon" || g.type === "MultiPolygon" ? g : null;
+}
+
+// whether the search circle around the area's inner point does not cover it, so the area has to be tiled
+function beyondRadius(area: Polygon | MultiPolygon, center: SearchCenter, radiusMeters: number): boolean {
+    return positions(area).some((p) => distance([center.lng, center.lat], p) > radiusMeters);
+}
+
+// one Foursquare search circle, and for the following pages the cursor where it left off
+export type SearchCell = { lat: number; lng: number; cursor?: string };
+export type SearchOptions = { query: string; radiusMeters: number; limit: number; includeDetails: boolean };
+
+// Searches every cell and merges the results: taken from each cell in turn (so no single district fills the
+// list), deduplicated by fsq_place_id (also against `seen`, the places shown already), only those inside `area`
+// when given, with distances measured from `center`. Fails only when every cell failed; cells that failed or
+// have no more places are left out of `next`.
+export async function searchCells(cells: SearchCell[], opts: SearchOptions, center: { lat: number; lng: number }, area: Polygon | MultiPolygon | null, seen = new Set<string>()) {
+    const searches = await Promise.all(cells.map(({ lat, lng, cursor }) => fsqSearch({ ll: { lat, lng }, ...opts, cursor })));
+    const found = searches.flatMap((r) => (r.ok ? [r.data] : []));
+    if (!found.length) return combineErrors(searches.filter(isToolError));
+
+    const merged: any[] = [];
+    for (let i = 0; found.some((list) => i < list.length); i++) {
+        for (const list of found) {
+            const r = list[i];
+            const id = r?.fsq_place_id ?? r?.fsq_id;
+            if (!r || typeof r.latitude !== "number" || typeof r.longitude !== "number" || !id || seen.has(id)) continue;
+            seen.add(id);
+            if (area && !pointInPolygon([r.longitude, r.latitude], area)) continue;
+            merged.push({ ...r, distance: Math.round(distance([center.lng, center.lat], [r.longitude, r.latitude])) });
         }
-        // basic fallbacks for lines/multipoints
-        const coords: [number,number][] = (g as any).coordinates?.flat?.(2) ?? (g as any).coordinates ?? [];
-        if (!coords.length) return null;
-        const [sx,sy] = coords.reduce(([ax,ay],[x,y])=>[ax+x, ay+y], [0,0]);
-        return [sx/coords.length, sy/coords.length];
-    } catch { return null; }
+    }
+    const next = searches.flatMap((r, i) => (r.ok && r.cursor ? [{ lat: cells[i].lat, lng: cells[i].lng, cursor: r.cursor }] : []));
+    return { ok: true, data: merged, next } as const;
+}
+
+// Search results as map features: rated at least `minRating` when given (places without a rating are dropped),
+// the best rated first for an area (whose results may be merged from several cells), at most `limit`. A search
+// of several cells has up to `limit` places per cell; the ones left out here are not offered again by later pages.
+export function recommendationFeatures(results: any[], { minRating, byRating, limit }: { minRating?: number; byRating: boolean; limit: number }): Feature[] {
+    let features = fsqResultsToGeoJSON(results).features;
+    if (typeof minRating === "number") {
+        features = features.filter(f => {
+            const rating = (f.properties as any)?.rating;
+            return typeof rating === "number" && rating >= minRating;
+        });
+    }
+    // stable, so the cell order breaks ties
+    if (byRating) {
+        const rating = (f: Feature) => (f.properties as any)?.rating ?? -1;
+        features = [...features].sort((a, b) => rating(b) - rating(a));
+    }
+    return features.slice(0, limit);
 }
 
 // Tool to be used by the chatbot for finding recommendations near a place.
 export const foursquareByPlaceTool = tool({
     description:
-        "Resolve a place name to a centroid (via Nominatim) then search Foursquare for nearby POIs (restaurants, hotels, attractions). Only able to filter by distance to search center and by rating. Returns GeoJSON FeatureCollection, which includes recommendation as Points and search center as any kind of feature based on Nominatim search.",
+        "Resolve a place name to a centroid (via Nominatim), or leave out the place to search around the user's map view (around \"map\", for \"near here\") or their location (around \"me\", for \"near me\"), then search Foursquare for nearby POIs (restaurants, hotels, attractions). For areas (cities, districts, parks) only POIs inside them are returned, and areas larger than the radius are searched across their whole extent. An ambiguous place name returns numbered candidates to ask the user about instead. Only able to filter by distance to search center and by rating (0-10). With includeDetails, each POI also carries rating, price tier (1-4), opening hours, website, phone and popularity. Returns GeoJSON FeatureCollection, which includes recommendation as Points and search center as any kind of feature based on Nominatim search.",
     inputSchema: z.object({
-        place: z.string().min(2),                // e.g. "Gangnam-gu, Seoul"
+        place: z.string().min(2).optional(),     // e.g. "Gangnam-gu, Seoul" or "37.4979, 127.0276"; omit to use `around`
+        around: z.enum(["map", "me"]).optional(), // without a place: the map centre or the user's location
         query: z.string().default("restaurants"),// free text like "restaurants", "coffee", "hotels"
         radiusKm: z.number().int().min(1).max(5).default(3),
         limit: z.number().int().min(1).max(20).default(10),
-        includeDetails: z.boolean().default(true), // fetch rating/stats
-        minRating: z.number().min(0).max(10).optional(), // filter after details
+        includeDetails: z.boolean().default(true), // fetch rating, price, hours, website, tel, popularity
+        minRating: z.number().min(0).max(10).optional(), // filter after details (forces details on)
         categories: z.string().optional(), // CSV of FSQ category IDs (optional)
     }),
     // server-side only
-    execute: async ({ place, query, radiusKm, limit, minRating }): Promise<ToolResult> => {
-        // 1) Nominatim -> centroid
-        const nomi = await runNominatimSearch({ query: place, limit: 1 });
-        if (!nomi.ok || !nomi.data?.features?.length) {
-            return { ok: false, error: `Could not locate "${place}"` };
+    execute: async ({ place, around, query, radiusKm, limit, includeDetails, minRating }, { toolCallId, experimental_context }): Promise<ToolResult> => {
+        // 1) the search center: coordinates, a geocoded place, or the map view / user location
+        const center = await resolveSearchCenter(place, around, experimental_context as ChatContext | undefined);
+        if (isToolError(center)) return center;
+        // an ambiguous place name: ask which one is meant, and search around it once it is picked
+        if (center.candidates && place) {
+            return disambiguationResult(place, center.candidates, (name) => ({ place: name, around, query, radiusKm, limit, includeDetails, minRating }));
         }
-        const g = nomi.data.features[0].geometry as Geometry | undefined;
-        const c = centroid(g);
-        if (!c) return { ok: false, error: "No usable centroid from place geometry" };
-        const [lng, lat] = c;
+        const { geometry: g, name: centerName, lat, lng } = center;
 
-        // 2) Foursquare search around centroid
-        const sr = await fsqSearch({
-            ll: { lat, lng },
-            query,
-            radiusMeters: Math.round(radiusKm * 1000),
-            limit,
-        });
+        // 2) Foursquare search around the centroid, or across the whole area when it is larger than the radius
+        const radiusMeters = Math.round(radiusKm * 1000);
+        // rating is only returned as a detail field, so a rating filter needs details regardless
+        const details = includeDetails || typeof minRating === "number";
+        const area = placeArea(center);
+        const cells = area && beyondRadius(area, center, radiusMeters) ? coveringCells(area, radiusMeters, MAX_CELLS, MAX_CELL_METERS) : { centers: [[lng, lat]], meters: radiusMeters };
+        const opts: SearchOptions = { query, radiusMeters: Math.round(cells.meters), limit, includeDetails: details };
+        const sr = await searchCells(cells.centers.map(([lng, lat]) => ({ lat, lng })), opts, { lat, lng }, area);
         if (!sr.ok) return sr;
 
-        const results = sr.data;
-
-        // 3) Build GeoJSON
-        let fc: FeatureCollection = fsqResultsToGeoJSON(results!);
-
-        // 4) Filter by minRating if requested (only where rating exists)
-        if (typeof minRating === "number") {
-            fc = {
-                type: "FeatureCollection",
-                features: fc.features.filter(f => (f.properties as any)?.rating >= minRating),
-            };
-        }
+        // 3) Build GeoJSON, filtered by minRating if requested
+        const fc: FeatureCollection = {
+            type: "FeatureCollection",
+            features: recommendationFeatures(sr.data, { minRating, byRating: !!area && details, limit }),
+        };
 
         // Add the search center
         fc.features.unshift({
             type: "Feature",
-            properties: { source: "nominatim", name: place, category: "search-center" },
-            geometry: g!,
+            properties: { source: "nominatim", name: centerName, category: "search-center" },
+            geometry: g,
         });
 
-        return { ok: true, data: fc, source: "fsq"};
+        // where "show more" continues
+        const page: ResultPage = {
+            layer: toolCallId,
+            name: layerName("foursquareByPlace", { place, around, query }),
+            page: 1,
+            center: { lat, lng },
+            ...opts,
+            minRating,
+            inside: !!area,
+            cursors: sr.next,
+        };
+        return { ok: true, data: fc, source: "fsq", page };
     },
 });
\ No newline at end of file
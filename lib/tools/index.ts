@@ -0,0 +1,33 @@
+// lib/tools/index.ts
+// The chatbot's map tools, shared by the chat route and the retry route (/api/tools), so a failed call
+// re-runs with exactly the same tool as the model used. Their results are simplified for the map and
+// summarized for the model (see ./compact).
+import type { UIMessage } from "ai";
+import { nominatimReverseTool, nominatimSearchTool } from "./nominatim";
+import { foursquareByPlaceTool } from "./foursquare-by-place";
+import { directionsTool } from "./directions";
+import { placeDetailsTool } from "./place-details";
+import { comparePlacesTool } from "./compare-places";
+import { exportResultsTool } from "./export";
+import { createSpatialTools } from "./spatial";
+import { createItineraryTools } from "./itinerary";
+import { createShowMoreTools } from "./show-more";
+import { compactTools } from "./compact";
+
+// some tools refer to features of earlier results, so they are built from the conversation
+export function createMapTools(messages: UIMessage[]) {
+    return compactTools({
+        nominatimSearch: nominatimSearchTool,
+        nominatimReverse: nominatimReverseTool,
+        foursquareByPlace: foursquareByPlaceTool,
+        ...createShowMoreTools(messages),
+        placeDetails: placeDetailsTool,
+        comparePlaces: comparePlacesTool,
+        directions: directionsTool,
+        exportResults: exportResultsTool,
+        ...createSpatialTools(messages),
+        ...createItineraryTools(messages),
+    });
+}
+
+export type MapToolName = keyof ReturnType<typeof createMapTools>;
@@ -0,0 +1,183 @@
+// lib/tools/itinerary.ts
+import { z } from "zod";
+import type { Feature, Position } from "geojson";
+import { tool, type UIMessage } from "ai";
+import type { ToolResult } from "./types";
+import { osrmRouteVia, osrmTable, type RouteProfile } from "../services/osrm";
+import { centroid, distance } from "../geo";
+import { collectFeatures, resolveFeature } from "./spatial";
+import { contextCenter, locationNotShared, type ChatContext } from "./context";
+import { combineErrors, isToolError, toolError, type ToolError } from "../services/errors";
+
+type Stop = { name: string; lat: number; lng: number; fsqId?: string };
+type Leg = { distance: number; duration: number };
+
+// straight-line fallback when no routing is available: typical speeds in m/s, and how much longer
+// real paths are than the straight line
+const SPEEDS: Record<RouteProfile, number> = { walking: 1.25, cycling: 4.2, driving: 8.3 };
+const DETOUR = 1.3;
+
+// ---------- Ordering ----------
+
+// total cost of visiting `order` (indices into the matrix, starting at 0), optionally back to the start
+function tourCost(order: number[], cost: number[][], roundTrip: boolean): number {
+    let total = 0;
+    for (let i = 1; i < order.length; i++) total += cost[order[i - 1]][order[i]];
+    return roundTrip ? total + cost[order[order.length - 1]][order[0]] : total;
+}
+
+// Visiting order for points 1..n-1 starting from point 0: nearest neighbour, then 2-opt until no reversal of a
+// segment makes the tour shorter. Costs may be asymmetric (routed durations), so every candidate is re-costed.
+export function orderStops(cost: number[][], roundTrip = false): number[] {
+    const n = cost.length;
+    const order = [0];
+    const left = new Set(Array.from({ length: n - 1 }, (_, i) => i + 1));
+    while (left.size) {
+        const last = order[order.length - 1];
+        let next = -1;
+        for (const j of left) if (next < 0 || cost[last][j] < cost[last][next]) next = j;
+        order.push(next);
+        left.delete(next);
+    }
+
+    let best = tourCost(order, cost, roundTrip);
+    for (let improved = true; improved;) {
+        improved = false;
+        for (let i = 1; i < n - 1; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+                const c = tourCost(candidate, cost, roundTrip);
+                if (c < best - 1e-9) {
+                    order.splice(0, n, ...candidate);
+                    best = c;
+                    improved = true;
+                }
+            }
+        }
+    }
+    return order;
+}
+
+// ---------- Schedule ----------
+
+const clock = (minutes: number) => {
+    const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+    return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+};
+
+function formatLeg(leg: Leg) {
+    const km = leg.distance >= 1000 ? `${(leg.distance / 1000).toFixed(1)} km` : `${Math.round(leg.distance)} m`;
+    return `${km}, ~${Math.max(1, Math.round(leg.duration / 60))} min`;
+}
+
+// Tools to be used by the chatbot for planning a tour of several places.
+export function createItineraryTools(messages: UIMessage[]) {
+    const known = collectFeatures(messages);
+
+    // a stop from "lat, lng", an earlier result or the geocoder; "me" is the user's shared location
+    const resolveStop = async (ref: string, ctx: ChatContext | undefined): Promise<Stop | ToolError> => {
+        if (/^(me|my location|here i am)$/i.test(ref.trim())) {
+            const me = contextCenter(ctx, "me");
+            return me ? { name: "Your location", lat: me.lat, lng: me.lng } : locationNotShared();
+        }
+        const f = await resolveFeature(ref, known);
+        if (isToolError(f)) return f;
+        const c = centroid(f.feature.geometry);
+        if (!c) return toolError("not_found", `"${ref}" has no usable location`);
+        const p: any = f.feature.properties ?? {};
+        return { name: String(p.name ?? ref), lat: c[1], lng: c[0], fsqId: p.fsq_id };
+    };
+
+    const planItinerary = tool({
+        description:
+            "Plan a tour: starting from one place, visit several stops (names, earlier results, or \"lat, lng\"; start \"me\" for the user's location) in the shortest order (nearest neighbour + 2-opt on routed travel times, straight-line estimates when routing is unavailable), with travel time between stops and an optional clock schedule. Draws numbered stops and the connecting path. To edit a plan (e.g. \"swap stop 2 and 3\", \"drop the museum\"), call it again with the stops in the wanted order and optimize false.",
+        inputSchema: z.object({
+            start: z.string().min(1),                                 // e.g. "Hotel Gracery Shinjuku" or "me"
+            stops: z.array(z.string().min(1)).min(1).max(10),
+            profile: z.enum(["walking", "cycling", "driving"]).default("walking"),
+            optimize: z.boolean().default(true),                      // false keeps the stops in the given order
+            returnToStart: z.boolean().default(false),
+            startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional(), // 24-hour "HH:MM", e.g. "13:30"
+            minutesPerStop: z.number().int().min(0).max(480).default(45),
+        }),
+        // server-side only
+        execute: async ({ start, stops, profile, optimize, returnToStart, startTime, minutesPerStop }, { experimental_context }): Promise<ToolResult> => {
+            const ctx = experimental_context as ChatContext | undefined;
+            // 1) resolve the start and every stop
+            const resolved = await Promise.all([start, ...stops].map((ref) => resolveStop(ref, ctx)));
+            const failed = resolved.filter(isToolError);
+            if (failed.length) return combineErrors(failed);
+            const points = resolved as Stop[];
+
+            // 2) travel costs between all points: routed durations when available, else straight-line estimates
+            const table = await osrmTable(points, profile);
+            const straight = (a: Stop, b: Stop) => distance([a.lng, a.lat], [b.lng, b.lat]) * DETOUR;
+            const cost = points.map((a, i) => points.map((b, j) => {
+                const routed = table.ok ? table.data.durations[i]?.[j] : null;
+                return typeof routed === "number" ? routed : straight(a, b) / SPEEDS[profile];
+            }));
+
+            // 3) visiting order
+            const order = optimize ? orderStops(cost, returnToStart) : points.map((_, i) => i);
+            if (returnToStart) order.push(0);
+            const tour = order.map((i) => points[i]);
+
+            // 4) legs and the path: one routed line through all stops, or straight segments
+            const route = await osrmRouteVia(tour, profile);
+            const routedLegs: Leg[] | undefined = route.ok ? route.data.features[0]?.properties?.legs : undefined;
+            // the route is used only with every leg of it; otherwise the whole tour is a straight-line estimate
+            const routed = routedLegs?.length === tour.length - 1 ? routedLegs : undefined;
+            const legs: Leg[] = tour.slice(1).map((b, k) => {
+                const a = tour[k];
+                return routed?.[k] ?? { distance: Math.round(straight(a, b)), duration: Math.round(straight(a, b) / SPEEDS[profile]) };
+            });
+            const path: Feature = route.ok && routed
+                ? { ...route.data.features[0], properties: { source: "itinerary", category: "itinerary-path", profile, routed: true } }
+                : {
+                    type: "Feature",
+                    properties: { source: "itinerary", category: "itinerary-path", profile, routed: false },
+                    geometry: { type: "LineString", coordinates: tour.map((p): Position => [p.lng, p.lat]) },
+                };
+
+            // 5) schedule: leave the start at startTime, spend minutesPerStop at every stop
+            const [h, m] = (startTime ?? "0:00").split(":").map(Number);
+            let t = h * 60 + m;
+            const features: Feature[] = [path];
+            const lines: string[] = [`Start: ${tour[0].name}${startTime ? ` at ${clock(t)}` : ""}`];
+            tour.forEach((p, k) => {
+                const leg = k > 0 ? legs[k - 1] : undefined;
+                const arrival = leg ? t + leg.duration / 60 : t;
+                const isStart = k === 0;
+                const isEnd = returnToStart && k === tour.length - 1;
+                const departure = isStart || isEnd ? arrival : arrival + minutesPerStop;
+                features.push({
+                    type: "Feature",
+                    properties: {
+                        source: "itinerary",
+                        category: "itinerary-stop",
+                        stop: k,                                   // 0 is the start
+                        name: p.name,
+                        fsq_id: p.fsqId,
+                        arrival: startTime && !isStart ? clock(arrival) : undefined,
+                        departure: startTime && !isEnd ? clock(departure) : undefined,
+                        leg_distance: leg?.distance,
+                        leg_duration: leg?.duration,
+                    },
+                    geometry: { type: "Point", coordinates: [p.lng, p.lat] },
+                });
+                if (leg) {
+                    const label = isEnd ? `Back to ${p.name}` : `${k}. ${p.name}`;
+                    lines.push(`${label} (${formatLeg(leg)}${startTime ? `, arrive ${clock(arrival)}` : ""})`);
+                }
+                t = departure;
+            });
+            const total = legs.reduce((a, l) => ({ distance: a.distance + l.distance, duration: a.duration + l.duration }), { distance: 0, duration: 0 });
+            lines.push(`Total travel ${formatLeg(total)} ${profile}${routed ? "" : " (straight-line estimate)"}` +
+                (startTime ? `, finished around ${clock(t)}` : ""));
+
+            return { ok: true, data: { type: "FeatureCollection", features }, source: "itinerary", summary: lines.join("\n") };
+        },
+    });
+
+    return { planItinerary };
+}
@@ -1,12 +1,14 @@
 // lib/tools/nominatim.ts
 import { z } from "zod";
 import { tool } from "ai";
-import { runNominatimSearch } from "../services/nominatim";
+import { geocodeReverse, geocodeSearch } from "../services/geocoder";
+import { contextCenter, locationNotShared, type ChatContext } from "./context";
+import { disambiguationResult, pickMatch } from "./disambiguate";
 
 // Tool to be used by the chatbot for locating a place.
 export const nominatimSearchTool = tool({
   description:
-      "Search places with Nominatim (OpenStreetMap). Returns a GeoJSON FeatureCollection; prefers polygon geometry when available.",
+      "Search places with Nominatim (OpenStreetMap) or the configured geocoder. Returns a GeoJSON FeatureCollection; prefers polygon geometry when available. When the name matches several distinct places about equally well, returns numbered candidates to ask the user about instead.",
   inputSchema: z.object({
     query: z.string().min(2),
     limit: z.number().int().min(1).max(10).default(5),
@@ -19,11 +21,41 @@ export const nominatimSearchTool = tool({
           lng: z.number(),
           radiusKm: z.number().min(0.1).max(10).default(2),
         })
-        .optional(),                                  // optional viewbox bias
+        .optional(),                                  // only results inside this box
+    around: z.enum(["map", "me"]).optional(),       // bias to the map view ("here") or the user's location ("me")
   }),
-  // Server-side only. The AI SDK will supply the (unused) context arg.
+  // Server-side only. The chat route supplies the map viewport / user location as context.
+  execute: async ({ around, ...args }, { experimental_context }) => {
+    // an explicit `near` bounds the search; otherwise it is only biased towards what the user is looking at
+    // (or where they are), so places elsewhere are still found
+    let near = args.near;
+    if (!near) {
+      const center = contextCenter(experimental_context as ChatContext | undefined, around);
+      if (around === "me" && !center) return locationNotShared();
+      if (center) near = { lat: center.lat, lng: center.lng, radiusKm: Math.min(10, Math.max(0.1, center.radiusKm)) };
+    }
+    // Delegate to the shared geocoder (handles provider fallback, UA header, caching, etc.)
+    const res = await geocodeSearch({ ...args, near, bounded: !!args.near });
+    // several equally likely places: ask which one is meant (picking one searches its full name)
+    const match = res.ok ? pickMatch(args.query, res.data, near) : null;
+    if (match?.candidates) return disambiguationResult(args.query, match.candidates, (name) => ({ ...args, around, query: name, limit: 1 }));
+    return res;
+  },
+});
+
+
+// Tool to be used by the chatbot for describing what is at a coordinate.
+export const nominatimReverseTool = tool({
+  description:
+      "Reverse geocode a coordinate with Nominatim (OpenStreetMap) or the configured geocoder. Returns a GeoJSON FeatureCollection with the containing place (boundary polygon when available, plus its address hierarchy from most to least specific) and the queried point. Lower zoom returns larger containing areas.",
+  inputSchema: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    zoom: z.number().int().min(3).max(18).default(14), // 3 country, 10 city, 14 suburb, 16 street, 18 building
+    language: z.string().optional(),                    // e.g. "en", "ko"
+  }),
+  // Server-side only.
   execute: async (args) => {
-    // Delegate to the shared service (handles UA header, caching, etc.)
-    return await runNominatimSearch(args);
+    return await geocodeReverse(args);
   },
 });
@@ -0,0 +1,36 @@
+// lib/tools/place-details.ts
+import { z } from "zod";
+import { tool } from "ai";
+import type { ToolResult } from "./types";
+import { fsqPlace, fsqResultsToGeoJSON } from "../services/foursquare";
+import { toolError } from "../services/errors";
+
+// Tool to be used by the chatbot for questions about one specific Foursquare place (e.g. from a map marker).
+export const placeDetailsTool = tool({
+    description:
+        "Fetch one specific Foursquare place by its fsq_id (as found in earlier results or in the user's message): details (rating, price, hours, website, phone, description, menu, tastes), popular tips and photos. Use this instead of searching by name whenever an fsq_id is known.",
+    inputSchema: z.object({
+        fsqId: z.string().min(8).max(64),
+        tips: z.number().int().min(0).max(10).default(5),
+        photos: z.number().int().min(0).max(5).default(3),
+    }),
+    // server-side only
+    execute: async ({ fsqId, tips, photos }): Promise<ToolResult> => {
+        const res = await fsqPlace(fsqId.trim(), { tips, photos });
+        if (!res.ok) return res;
+
+        const { place, tips: tipList, photos: photoUrls } = res.data;
+        const fc = fsqResultsToGeoJSON([place]);
+        const f = fc.features[0];
+        if (!f) return toolError("not_found", `Place ${fsqId} has no location`);
+        f.properties = {
+            ...f.properties,
+            description: place.description,
+            menu: place.menu,
+            tastes: place.tastes,
+            tips: tipList.map((t: any) => t.text).filter(Boolean),
+            photos: photoUrls,
+        };
+        return { ok: true, data: fc, source: "fsq" };
+    },
+});
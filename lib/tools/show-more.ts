@@ -0,0 +1,83 @@
+// lib/tools/show-more.ts
+import { z } from "zod";
+import type { Feature, MultiPolygon, Polygon } from "geojson";
+import { tool, type UIMessage } from "ai";
+import type { ResultPage, ToolResult } from "./types";
+import { toolError } from "../services/errors";
+import { recommendationFeatures, searchCells } from "./foursquare-by-place";
+import { fullFeature } from "./compact";
+
+// one page of recommendations earlier in the conversation: the first from foursquareByPlace, the next ones from showMore
+type KnownPage = { page: ResultPage; features: Feature[] };
+
+// Pages of recommendation results in the conversation, oldest first.
+function collectPages(messages: UIMessage[]): KnownPage[] {
+    const out: KnownPage[] = [];
+    for (const m of messages ?? []) {
+        if (m.role !== "assistant" || !Array.isArray(m.parts)) continue;
+        for (const part of m.parts as any[]) {
+            const output = part?.output;
+            if (!String(part?.type).startsWith("tool-") || part.state !== "output-available") continue;
+            if (output?.ok && output.page && output.data?.type === "FeatureCollection") {
+                out.push({ page: output.page, features: output.data.features });
+            }
+        }
+    }
+    return out;
+}
+
+// the newest page of the recommendations a layer name (or result id) refers to; the latest ones without a name
+function findPage(pages: KnownPage[], layer: string | undefined): ResultPage | undefined {
+    const newest = [...pages].reverse().map((k) => k.page);
+    const ref = layer?.trim().toLowerCase();
+    if (!ref) return newest[0];
+    return newest.find((p) => p.layer.toLowerCase() === ref || p.name.toLowerCase() === ref)
+        ?? newest.find((p) => p.name.toLowerCase().includes(ref));
+}
+
+// Tool to be used by the chatbot (and the "Show more" button in the chat) for the next page of recommendations.
+// The Foursquare cursors travel with each page's result, so the next page continues where the last one stopped,
+// and places already on the map are left out.
+export function createShowMoreTools(messages: UIMessage[]) {
+    const pages = collectPages(messages);
+
+    const showMore = tool({
+        description:
+            "Add the next page of earlier recommendations (from \"foursquareByPlace\") to their layer on the map, for \"show more\" or \"more options\". Only places not shown yet are returned. Use the layer name, or leave it out for the latest recommendations.",
+        inputSchema: z.object({
+            layer: z.string().min(1).optional(),     // layer name of the earlier recommendations
+        }),
+        // server-side only
+        execute: async ({ layer }): Promise<ToolResult> => {
+            const prev = findPage(pages, layer);
+            if (!prev) {
+                return toolError("not_found", layer ? `No recommendations "${layer}" earlier in this conversation` : "No earlier recommendations to show more of", {
+                    hint: "Ask for recommendations first.",
+                });
+            }
+            const chain = pages.filter((k) => k.page.layer === prev.layer);
+            const places = chain.flatMap((k) => k.features).filter((f) => f.properties?.category !== "search-center");
+            if (!prev.cursors.length) {
+                return toolError("not_found", `There are no more ${prev.query}: all ${places.length} places of "${prev.name}" are already on the map`, {
+                    hint: "Search a larger radius or a different kind of place.",
+                });
+            }
+
+            // areas keep only the places inside them, like their first page (measured on its full outline)
+            const center = chain.find((k) => k.page.page === 1)?.features.find((f) => f.properties?.category === "search-center");
+            const g = center && (await fullFeature(center)).geometry;
+            const area = prev.inside && (g?.type === "Polygon" || g?.type === "MultiPolygon") ? g as Polygon | MultiPolygon : null;
+            const seen = new Set(places.map((f) => String(f.properties?.fsq_id)));
+            const { query, radiusMeters, limit, includeDetails } = prev;
+            const sr = await searchCells(prev.cursors, { query, radiusMeters, limit, includeDetails }, prev.center, area, seen);
+            if (!sr.ok) return sr;
+
+            const features = recommendationFeatures(sr.data, { minRating: prev.minRating, byRating: prev.inside && includeDetails, limit });
+            const page: ResultPage = { ...prev, page: prev.page + 1, cursors: sr.next };
+            const summary = `${features.length} more ${query} added to "${prev.name}"${sr.next.length ? "" : "; there are no more"}`;
+            return { ok: true, data: { type: "FeatureCollection", features }, source: "fsq", summary, page };
+        },
+    });
+
+    return { showMore };
+}
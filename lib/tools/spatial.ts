@@ -0,0 +1,166 @@
+// lib/tools/spatial.ts
+import { z } from "zod";
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from "geojson";
+import { tool, type UIMessage } from "ai";
+import type { ToolResult } from "./types";
+import { geocodeSearch } from "../services/geocoder";
+import { area, bbox, buffer, centroid, distance, distanceToGeometry, length, parseCoordinate, pointInPolygon } from "../geo";
+import { layerName } from "../layers";
+import { isToolError, toolError, type ToolError } from "../services/errors";
+import { fullFeature } from "./compact";
+
+// a feature from an earlier tool output, with the layer it is drawn in
+export type KnownFeature = { layer: string; name: string; feature: Feature };
+
+// Features of earlier tool results in the conversation, newest first, so the analysis tools can refer to
+// "Gangnam-gu" or "Blue Bottle" without searching again.
+export function collectFeatures(messages: UIMessage[]): KnownFeature[] {
+    const out: KnownFeature[] = [];
+    for (const m of [...(messages ?? [])].reverse()) {
+        if (m.role !== "assistant" || !Array.isArray(m.parts)) continue;
+        for (const part of [...m.parts].reverse() as any[]) {
+            const output = part?.output;
+            if (!String(part?.type).startsWith("tool-") || part.state !== "output-available") continue;
+            if (!output?.ok || output.data?.type !== "FeatureCollection") continue;
+            const layer = layerName(part.type, part.input, output);
+            for (const f of output.data.features as Feature[]) {
+                const p: any = f.properties ?? {};
+                if (!f.geometry || p.category === "measurement") continue;
+                out.push({ layer, name: String(p.name ?? p.display_name ?? ""), feature: f });
+            }
+        }
+    }
+    return out;
+}
+
+// Resolves a reference to one feature: "lat, lng", a feature or layer name from earlier results
+// (with their full geometry, see ./compact), or else whatever the geocoder finds for it.
+export async function resolveFeature(ref: string, known: KnownFeature[]): Promise<{ name: string; feature: Feature } | ToolError> {
+    const c = parseCoordinate(ref);
+    if (c) {
+        return { name: ref.trim(), feature: { type: "Feature", properties: { name: ref.trim() }, geometry: { type: "Point", coordinates: [c.lng, c.lat] } } };
+    }
+
+    const q = ref.trim().toLowerCase();
+    const displayName = (k: KnownFeature) => String(k.feature.properties?.display_name ?? "").toLowerCase();
+    const hit =
+        known.find((k) => k.name.toLowerCase() === q)
+        ?? known.find((k) => k.layer.toLowerCase() === q)
+        ?? known.find((k) => k.name.toLowerCase().startsWith(q) || displayName(k).startsWith(q))
+        ?? known.find((k) => k.name.toLowerCase().includes(q));
+    if (hit) return { name: hit.name || ref, feature: await fullFeature(hit.feature) };
+
+    const res = await geocodeSearch({ query: ref, limit: 1 });
+    if (!res.ok) return { ...res, error: `Could not find "${ref}": ${res.error}` };
+    if (!res.data.features.length) return toolError("not_found", `Could not find "${ref}" in earlier results or by searching`);
+    const f = res.data.features[0];
+    return { name: String(f.properties?.display_name ?? ref), feature: f };
+}
+
+function isArea(f: Feature): f is Feature<Polygon | MultiPolygon> {
+    return f.geometry?.type === "Polygon" || f.geometry?.type === "MultiPolygon";
+}
+
+function formatMeters(m: number) {
+    return m >= 1000 ? `${(m / 1000).toFixed(m >= 10_000 ? 1 : 2)} km` : `${Math.round(m)} m`;
+}
+
+function analysisResult(features: Feature[], summary: string): ToolResult {
+    const data: FeatureCollection = { type: "FeatureCollection", features };
+    return { ok: true, data, source: "analysis", summary };
+}
+
+const FEATURE_REF = z.string().min(1).describe('a feature or layer name from earlier results, a place to search for, or coordinates as "lat, lng"');
+
+// Tools to be used by the chatbot for measuring and comparing features found earlier in the conversation.
+export function createSpatialTools(messages: UIMessage[]) {
+    const known = collectFeatures(messages);
+
+    const measureDistance = tool({
+        description:
+            "Geodesic distance between two features. Returns the distance between their centers and, when one of them is an area, the distance from the other's center to that area's edge (0 when inside). Draws a measuring line on the map.",
+        inputSchema: z.object({ from: FEATURE_REF, to: FEATURE_REF }),
+        execute: async ({ from, to }): Promise<ToolResult> => {
+            const [a, b] = await Promise.all([resolveFeature(from, known), resolveFeature(to, known)]);
+            if (isToolError(a)) return a;
+            if (isToolError(b)) return b;
+            const ca = centroid(a.feature.geometry), cb = centroid(b.feature.geometry);
+            if (!ca || !cb) return toolError("invalid_input", "No usable geometry to measure from");
+
+            const centers = distance(ca, cb);
+            const edge = isArea(b.feature) ? distanceToGeometry(ca, b.feature.geometry)
+                : isArea(a.feature) ? distanceToGeometry(cb, a.feature.geometry)
+                    : undefined;
+            const line: Feature = {
+                type: "Feature",
+                properties: { category: "measurement", from: a.name, to: b.name, distance: Math.round(centers), edge_distance: edge === undefined ? undefined : Math.round(edge) },
+                geometry: { type: "LineString", coordinates: [ca, cb] },
+            };
+            const summary = `${a.name} to ${b.name}: ${formatMeters(centers)} between centers`
+                + (edge === undefined ? "" : edge === 0 ? ", and one lies inside the other" : `, ${formatMeters(edge)} to the edge of the area`);
+            return analysisResult([a.feature, b.feature, line], summary);
+        },
+    });
+
+    const measureArea = tool({
+        description: "Geodesic area, perimeter and bounding box of an area feature (e.g. a district or park polygon).",
+        inputSchema: z.object({ feature: FEATURE_REF }),
+        execute: async ({ feature }): Promise<ToolResult> => {
+            const f = await resolveFeature(feature, known);
+            if (isToolError(f)) return f;
+            if (!isArea(f.feature)) return toolError("invalid_input", `"${f.name}" is a ${f.feature.geometry?.type ?? "feature without geometry"}, not an area`);
+
+            const m2 = area(f.feature.geometry);
+            const perimeter = length(f.feature.geometry);
+            const box = bbox(f.feature.geometry);
+            const measured: Feature = {
+                ...f.feature,
+                properties: { ...f.feature.properties, area_m2: Math.round(m2), perimeter_m: Math.round(perimeter), bbox: box },
+            };
+            const size = m2 >= 1_000_000 ? `${(m2 / 1_000_000).toFixed(2)} km²` : `${Math.round(m2)} m²`;
+            return analysisResult([measured], `${f.name}: ${size}, perimeter ${formatMeters(perimeter)}`);
+        },
+    });
+
+    const bufferFeature = tool({
+        description:
+            "Draw the area within a distance of a feature (a circle around a point, a corridor along a line or route, or an enlarged area), e.g. \"show everything within 500 m of the station\".",
+        inputSchema: z.object({
+            feature: FEATURE_REF,
+            radiusMeters: z.number().min(1).max(50_000),
+        }),
+        execute: async ({ feature, radiusMeters }): Promise<ToolResult> => {
+            const f = await resolveFeature(feature, known);
+            if (isToolError(f)) return f;
+            if (!f.feature.geometry) return toolError("invalid_input", `"${f.name}" has no geometry`);
+
+            const zone: Feature = {
+                type: "Feature",
+                properties: { category: "buffer", name: `${formatMeters(radiusMeters)} around ${f.name}`, radius_m: radiusMeters },
+                geometry: buffer(f.feature.geometry, radiusMeters),
+            };
+            return analysisResult([zone, f.feature], `Drew the area within ${formatMeters(radiusMeters)} of ${f.name}`);
+        },
+    });
+
+    const pointInArea = tool({
+        description:
+            "Check whether a place (or its center) lies inside an area such as a park or district polygon, respecting holes in the area.",
+        inputSchema: z.object({ point: FEATURE_REF, area: FEATURE_REF }),
+        execute: async ({ point, area: areaRef }): Promise<ToolResult> => {
+            const [p, a] = await Promise.all([resolveFeature(point, known), resolveFeature(areaRef, known)]);
+            if (isToolError(p)) return p;
+            if (isToolError(a)) return a;
+            if (!isArea(a.feature)) return toolError("invalid_input", `"${a.name}" is not an area, so nothing can be inside it`);
+            const c = centroid(p.feature.geometry);
+            if (!c) return toolError("invalid_input", `"${p.name}" has no geometry`);
+
+            const inside = pointInPolygon(c, a.feature.geometry);
+            const away = inside ? 0 : distanceToGeometry(c, a.feature.geometry);
+            const summary = inside ? `${p.name} is inside ${a.name}` : `${p.name} is not inside ${a.name} (${formatMeters(away)} outside)`;
+            return analysisResult([a.feature, p.feature], summary);
+        },
+    });
+
+    return { measureDistance, measureArea, bufferFeature, pointInArea };
+}
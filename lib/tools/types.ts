@@ -0,0 +1,47 @@
+// lib/tools/types.ts
+// What the map tools return: the services' ToolResult, widened with what only the tools add to it for the chat
+// (sources of their own and extra fields the chat renders).
+
+import type { ToolError } from "../services/errors";
+import type { ToolResult as ServiceResult } from "../services/nominatim";
+
+// per-place statistics of a comparison (see ./compare-places), in the order of the places asked for
+export type ComparisonGroup = {
+    place: string;
+    count: number;
+    ratedCount: number;
+    avgRating?: number;              // 0..10, over the rated places
+    avgPrice?: number;               // 1..4, over the places with a price tier
+    nearest?: { name: string; distance: number };
+    topRated?: { name: string; rating: number };
+    error?: string;                  // this place could not be searched
+};
+
+// where the next page of a recommendation result comes from (see ./show-more): the search of the
+// first page, and the Foursquare cursor of every search circle that has more places
+export type ResultPage = {
+    layer: string;                   // tool call id of the first page, whose layer the next pages are added to
+    name: string;                    // that layer's name
+    page: number;                    // 1 for the first page
+    center: { lat: number; lng: number };
+    query: string;
+    radiusMeters: number;
+    limit: number;
+    includeDetails: boolean;
+    minRating?: number;
+    inside: boolean;                 // only places inside the searched area (see foursquareByPlace)
+    cursors: { lat: number; lng: number; cursor: string }[];   // empty when there are no more places
+};
+
+// a name that matches several places (see ./disambiguate): the options in the order of their
+// numbered pins, each with the input that re-runs the tool for it
+export type Disambiguation = {
+    query: string;
+    options: { label: string; input: Record<string, unknown> }[];
+};
+
+type Found = Extract<ServiceResult, { ok: true }>;
+
+export type ToolResult =
+    | (Omit<Found, "source"> & { source: Found["source"] | "compare" | "itinerary"; comparison?: ComparisonGroup[]; page?: ResultPage; disambiguation?: Disambiguation })
+    | ToolError;